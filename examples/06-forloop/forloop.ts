@@ -5,8 +5,8 @@ function main(): number {
     let sum: number = 0;
 
     // Sum 1 + 2 + ... + 10 = 55
-    for (let i: number = 1; i <= 10; i = i + 1) {
-        sum = sum + i;
+    for (let i: number = 1; i <= 10; i++) {
+        sum += i;
         printf("i=%d, sum=%d\\n", i, sum);
     }
 
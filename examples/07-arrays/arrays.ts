@@ -12,8 +12,8 @@ function main(): number {
 
     // Calculate sum
     let sum: number = 0;
-    for (let i: number = 0; i < 5; i = i + 1) {
-        sum = sum + arr[i];
+    for (let i: number = 0; i < 5; i++) {
+        sum += arr[i];
         printf("arr[%d] = %d\\n", i, arr[i]);
     }
 
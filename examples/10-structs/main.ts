@@ -38,7 +38,10 @@ function main(): number {
     // Clean up
     free(vec);
 
+    // start and end are pointers: the Line and each Point need their own malloc
     let line: Line = malloc(sizeof<Line>());
+    line.start = malloc(sizeof<Point>());
+    line.end = malloc(sizeof<Point>());
     line.start.x = 1;
     line.start.y = 2;
     line.end.x = 3;
@@ -49,6 +52,8 @@ function main(): number {
     printf("line.end.x = %d\\n", line.end.x);
     printf("line.end.y = %d\\n", line.end.y);
 
+    free(line.start);
+    free(line.end);
     free(line);
 
     return sum;  // Expected: 60
@@ -0,0 +1,32 @@
+// Floating point test - f32/f64 arithmetic and int <-> float conversion
+
+function lerp(a: f64, b: f64, t: f64): f64 {
+    return a + (b - a) * t;
+}
+
+function half(x: f32): f32 {
+    return x * 0.5;
+}
+
+function main(): number {
+    printf("=== Floating Point Test ===\n\n");
+
+    let x: f64 = 1.5;
+    let n: number = 3;
+
+    // i32 is converted to f64 (sitofp) before the multiply
+    let d: f64 = x * n + 0.25;
+    printf("x * n + 0.25 = %f\n", d);
+
+    printf("lerp(0, 10, 0.25) = %f\n", lerp(0, 10, 0.25));
+
+    // f32 values are promoted to double when passed to printf
+    let h: f32 = half(3);
+    printf("half(3) = %f\n", h);
+
+    // Narrowing conversions need an explicit cast: f64 -> i32 (fptosi)
+    let truncated: number = d as number;
+    printf("truncated = %d\n", truncated);
+
+    return truncated;  // Expected: 4
+}
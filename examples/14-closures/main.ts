@@ -0,0 +1,90 @@
+// Closures test - by-reference capture, closures as fields, escaping closures and free
+
+interface Counter {
+    count: number;
+}
+
+interface Timer {
+    onTick: Closure<(dt: number) => void>;
+}
+
+// Print a result; returns 1 if it is wrong
+function check(name: string, actual: number, expected: number): number {
+    printf("%s = %d (expected %d)\n", name, actual, expected);
+    return actual === expected ? 0 : 1;
+}
+
+// Calls a closure parameter: its environment stays in the caller's stack frame
+function repeat(f: Closure<(n: number) => void>, times: number): void {
+    for (let i = 0; i < times; i++) {
+        f(i);
+    }
+}
+
+// The returned closure escapes, so its environment is malloc'd (only consts are captured)
+function makeAdder(k: number): Closure<(x: number) => number> {
+    const step = k;
+    return (x: number) => x + step;
+}
+
+// Stored in a heap struct: escapes as well, and updates the counter through its pointer
+function attach(timer: Timer, counter: Counter): void {
+    const c = counter;
+    timer.onTick = (dt: number): void => { c.count += dt; };
+}
+
+function add(a: number, b: number): number {
+    return a + b;
+}
+
+function apply(f: Closure<(a: number, b: number) => number>, x: number): number {
+    return f(x, x);
+}
+
+function main(): number {
+    printf("=== Closures Test ===\n\n");
+    let failures = 0;
+
+    // A let is captured by reference: the closure sees and updates the variable itself
+    let total = 0;
+    const bump = (n: number): void => { total += n; };
+    bump(3);
+    bump(4);
+    failures += check("total after bump(3), bump(4)", total, 7);
+
+    total = 100;
+    bump(1);
+    failures += check("total after total = 100, bump(1)", total, 101);
+
+    // 0 + 1 + 2 + 3 + 4 added by a closure passed as a parameter
+    let sum = 0;
+    repeat((n: number): void => { sum += n; }, 5);
+    failures += check("sum of repeat(.., 5)", sum, 10);
+
+    // A const is copied into the environment
+    const base = 40;
+    const addBase = (x: number) => x + base;
+    failures += check("addBase(2)", addBase(2), 42);
+
+    // Escaping closures are released with free
+    const add5 = makeAdder(5);
+    const add7 = makeAdder(7);
+    failures += check("add5(1) + add7(1)", add5(1) + add7(1), 14);
+    free(add5);
+    free(add7);
+
+    const counter: Counter = { count: 0 };
+    let timer: Timer = malloc(sizeof<Timer>());
+    attach(timer, counter);
+    timer.onTick(2);
+    timer.onTick(3);
+    failures += check("counter.count after two ticks", counter.count, 5);
+    free(timer.onTick);
+    free(timer);
+
+    // A plain function converts to a closure of the same signature
+    failures += check("apply(add, 4)", apply(add, 4), 8);
+
+    printf("\n%d failures\n", failures);
+    return failures;  // Expected: 0
+}
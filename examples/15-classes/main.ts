@@ -0,0 +1,79 @@
+// Classes test - constructors, field initializers, methods and access modifiers
+
+class Account {
+    balance = 0;                // field initializer, run before the constructor body
+    deposits: number = 0;
+    private limit: number;
+
+    constructor(readonly id: number, limit: number) {
+        this.limit = limit;     // readonly and private fields are assignable here
+    }
+
+    deposit(amount: number): boolean {
+        if (!this.fits(amount)) {
+            return false;
+        }
+        this.balance += amount;
+        this.deposits++;
+        return true;
+    }
+
+    // Only callable inside the class
+    private fits(amount: number): boolean {
+        return this.balance + amount <= this.limit;
+    }
+}
+
+class Vec2 {
+    constructor(public x: f64, public y: f64) {}
+
+    dot(o: Vec2): f64 {
+        return this.x * o.x + this.y * o.y;
+    }
+}
+
+// A free function with a "this" parameter works on a class too
+function scaled(this: Vec2, k: f64): f64 {
+    return (this.x + this.y) * k;
+}
+
+// Print a result; returns 1 if it is wrong
+function check(name: string, actual: number, expected: number): number {
+    printf("%s = %d (expected %d)\n", name, actual, expected);
+    return actual === expected ? 0 : 1;
+}
+
+function main(): number {
+    printf("=== Classes Test ===\n\n");
+    let failures = 0;
+
+    // new mallocs a zeroed object and runs the constructor
+    const a = new Account(7, 100);
+    failures += check("a.id", a.id, 7);
+    failures += check("a.balance", a.balance, 0);
+
+    a.deposit(60);
+    const accepted = a.deposit(50);  // over the limit: rejected
+    a.deposit(40);
+    failures += check("a.balance after deposits", a.balance, 100);
+    failures += check("a.deposits", a.deposits, 2);
+    failures += check("second deposit accepted", accepted ? 1 : 0, 0);
+
+    // Each of these is a compile error:
+    //   a.limit = 10;     private field outside its class
+    //   a.fits(1);        private method outside its class
+    //   a.id = 8;         readonly field outside its constructor
+    //   new Account(1);   missing constructor argument
+
+    // An Inline<Vec2> local is constructed in the stack frame
+    const v = new Vec2(3.0, 4.0);
+    let w: Inline<Vec2> = new Vec2(1.0, 2.0);
+    failures += check("v.dot(w)", v.dot(w) as i32, 11);
+    failures += check("w.scaled(2)", w.scaled(2.0) as i32, 6);
+
+    free(a);
+    free(v);
+
+    printf("\n%d failures\n", failures);
+    return failures;  // Expected: 0
+}
@@ -0,0 +1,99 @@
+// Inheritance test - abstract classes, overrides through the vtable, super calls and interfaces
+
+interface Named {
+    code(): number;
+}
+
+abstract class Shape {
+    constructor(public id: number) {}
+
+    abstract area(): number;
+
+    // Not overridden: a direct call, which calls area() through the vtable
+    twice(): number {
+        return this.area() * 2;
+    }
+}
+
+class Rect extends Shape implements Named {
+    constructor(id: number, public w: number, public h: number) {
+        super(id);
+    }
+
+    area(): number {
+        return this.w * this.h;
+    }
+
+    code(): number {
+        return 100 + this.id;
+    }
+}
+
+// Overrides Rect's area, and calls it with super.area()
+class Bordered extends Rect {
+    constructor(id: number, w: number, h: number, public border: number) {
+        super(id, w, h);
+    }
+
+    area(): number {
+        return super.area() + this.border;
+    }
+}
+
+class Square extends Shape {
+    side = 0;
+
+    constructor(id: number, side: number) {
+        super(id);
+        this.side = side;
+    }
+
+    area(): number {
+        return this.side * this.side;
+    }
+}
+
+// Print a result; returns 1 if it is wrong
+function check(name: string, actual: number, expected: number): number {
+    printf("%s = %d (expected %d)\n", name, actual, expected);
+    return actual === expected ? 0 : 1;
+}
+
+// Calls through the Named interface: Rect's itable, inherited by Bordered
+function codeOf(n: Named): number {
+    return n.code();
+}
+
+function main(): number {
+    printf("=== Inheritance Test ===\n\n");
+    let failures = 0;
+
+    // new Shape(1) is a compile error: Shape is abstract
+    let shapes: Shape[] = malloc(3 * sizeof<Shape>());
+    shapes[0] = new Rect(1, 2, 3);
+    shapes[1] = new Bordered(2, 2, 3, 4);
+    shapes[2] = new Square(3, 5);
+
+    // area() is dispatched through each object's vtable
+    let total = 0;
+    for (let i = 0; i < 3; i++) {
+        total += shapes[i].area();
+    }
+    failures += check("total area", total, 6 + 10 + 25);
+
+    failures += check("shapes[1].twice()", shapes[1].twice(), 20);
+    failures += check("shapes[2].id", shapes[2].id, 3);
+
+    const b = new Bordered(4, 1, 1, 1);
+    failures += check("codeOf(rect)", codeOf(shapes[0] as Rect), 101);
+    failures += check("codeOf(bordered)", codeOf(b), 104);
+
+    for (let j = 0; j < 3; j++) {
+        free(shapes[j]);
+    }
+    free(shapes);
+    free(b);
+
+    printf("\n%d failures\n", failures);
+    return failures;  // Expected: 0
+}
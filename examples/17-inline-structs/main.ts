@@ -0,0 +1,49 @@
+// Inline structs test - by-value struct fields, stack structs and object literals
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+// Line embeds both points by value: one malloc allocates all of it
+interface Line {
+    start: Inline<Point>;
+    end: Inline<Point>;
+}
+
+// Print a result; returns 1 if it is wrong
+function check(name: string, actual: number, expected: number): number {
+    printf("%s = %d (expected %d)\n", name, actual, expected);
+    return actual === expected ? 0 : 1;
+}
+
+function main(): number {
+    printf("=== Inline Structs Test ===\n\n");
+    let failures = 0;
+
+    // Both points are laid out inside the Line (a plain start: Point would be a pointer)
+    failures += check("sizeof<Line>()", sizeof<Line>(), 2 * sizeof<Point>());
+    failures += check("offsetof<Line>(\"end\")", offsetof<Line>("end"), 8);
+
+    let line: Line = malloc(sizeof<Line>());
+    line.start.x = 1;
+    line.start.y = 2;
+    line.end.x = 3;
+    line.end.y = 4;
+    failures += check("line.end.x - line.start.x", line.end.x - line.start.x, 2);
+
+    // An Inline<Point> local lives in the stack frame; assigning to it copies the struct
+    let p: Inline<Point> = { x: 5, y: 6 };
+    p = line.end;
+    line.end.x = 7;
+    failures += check("p.x after the copy", p.x, 3);
+
+    // A nested literal fills the inline fields in place
+    let box: Inline<Line> = { start: { x: 1, y: 1 }, end: { x: 4, y: 5 } };
+    failures += check("box.end.y", box.end.y, 5);
+
+    free(line);
+
+    printf("\n%d failures\n", failures);
+    return failures;  // Expected: 0
+}
@@ -1,10 +1,11 @@
 import * as ts from "typescript";
 import { Emitter } from "./Emitter";
-import { Context } from "./Context";
+import { Context, Variable } from "./Context";
 import { TypeMapper } from "./TypeMapper";
 import { ImportInfo } from "./ModuleResolver";
-import { StructRegistry } from "./StructRegistry";
+import { StructRegistry, FieldDeclaration } from "./StructRegistry";
 import { GenericRegistry } from "./GenericRegistry";
+import { EnumRegistry, EnumMember } from "./EnumRegistry";
 import { TypeResolver, ParsedTypeReference } from "./TypeResolver";
 
 /**
@@ -15,6 +16,7 @@ interface ExternFunction {
     returnType: string;
     params: { name: string; type: string }[];
     isVariadic: boolean;
+    unsignedReturn?: boolean;   // Return type is an unsigned integer
 }
 
 /**
@@ -25,8 +27,62 @@ interface InternalFunction {
     mangledName: string;    // Name in LLVM IR (e.g., "math_add")
     returnType: string;
     params: { name: string; type: string }[];
+    unsignedReturn?: boolean;   // Return type is an unsigned integer
+    declaringClass?: string;    // Class of a class method
+    isPrivate?: boolean;        // private class method: only callable inside its class
+    isProtected?: boolean;      // protected class method: also callable inside subclasses
+    isAbstract?: boolean;       // abstract class method: has no body, only vtable slots
+    vtableIndex?: number;       // Virtual method: called through this slot of the object's vtable
+    interfaceName?: string;     // Interface method: vtableIndex is its slot in the object's itable for it
 }
 
+/**
+ * TypedValue - An LLVM value paired with its LLVM type
+ */
+interface TypedValue {
+    value: string;  // Register or immediate (e.g., "%t3", "42")
+    type: string;   // LLVM type (e.g., "i32", "double", "%Point*")
+    unsigned?: boolean;  // Integer (or array element) type is unsigned (u8..u64)
+}
+
+/**
+ * StorageAddress - A pointer to a variable, struct field or array element
+ */
+interface StorageAddress {
+    ptr: string;         // Register holding the address
+    type: string;        // LLVM type stored at the address
+    unsigned?: boolean;  // Stored integer is unsigned
+    isBoolean?: boolean; // Boolean stored as i8 (loads truncate to i1, stores zero-extend)
+    align?: number;      // Explicit alignment for loads/stores (fields of packed structs)
+}
+
+/**
+ * Capture - A variable of the enclosing function used inside an arrow function
+ * Mutable variables are captured by reference (the environment holds their address),
+ * const variables by value; folded constants need no environment slot
+ */
+interface Capture {
+    name: string;
+    variable: Variable;
+    byReference: boolean;
+}
+
+/**
+ * JumpTarget - Where break/continue go inside a loop or labeled statement
+ */
+interface JumpTarget {
+    kind: "loop" | "switch" | "block";  // Unlabeled break targets loops/switches, continue only loops
+    label?: string;          // Statement label (e.g., "outer" in outer: for ...)
+    breakLabel: string;      // Block that break jumps to
+    continueLabel?: string;  // Block that continue jumps to (loops only)
+}
+
+/**
+ * Name of the hidden first field of classes in a hierarchy, pointing to the class's vtable
+ * (not a valid identifier, so it cannot clash with or be accessed as a TypeScript field)
+ */
+const VTABLE_FIELD = ".vtable";
+
 /**
  * ASTWalker - Traverses TypeScript AST and generates LLVM IR
  * 
@@ -41,6 +97,10 @@ export class ASTWalker {
     private externFunctions: Map<string, ExternFunction> = new Map();
     private internalFunctions: Map<string, InternalFunction> = new Map();
 
+    // Module-level variables: this module's global scope, and all globals by mangled name
+    private globalScope: Map<string, Variable> = new Map();
+    private globalVariables: Map<string, Variable> = new Map();
+
     // Module support
     private currentModule: string = "main";
     private importMap: Map<string, string> = new Map();  // localName → mangledName
@@ -48,6 +108,22 @@ export class ASTWalker {
     // Struct support
     private structRegistry: StructRegistry = new StructRegistry();
 
+    // Interfaces of this module by name, and those whose base is being defined (for extends)
+    private interfaceDeclarations: Map<string, ts.InterfaceDeclaration> = new Map();
+    private definingInterfaces: Set<string> = new Set();
+
+    // Class support: declarations, constructors and vtable slots (method names) by class name,
+    // and the class being compiled
+    private classDeclarations: Map<string, ts.ClassDeclaration> = new Map();
+    private classConstructors: Map<string, InternalFunction> = new Map();
+    private classVTables: Map<string, string[]> = new Map();
+    private interfaceMethods: Map<string, string[]> = new Map();  // Interfaces declaring methods: itable slots
+    private itableLookupEmitted: boolean = false;
+    private currentClass: { node: ts.ClassDeclaration; name: string; isConstructor: boolean } | undefined;
+
+    // Enum support
+    private enumRegistry: EnumRegistry = new EnumRegistry();
+
     // Method support (UFCS): structName -> methodName -> function info
     private methodRegistry: Map<string, Map<string, InternalFunction>> = new Map();
 
@@ -55,12 +131,22 @@ export class ASTWalker {
     private genericRegistry: GenericRegistry = new GenericRegistry();
     private typeResolver: TypeResolver = new TypeResolver();
 
+    // LLVM return type of the function currently being compiled
+    private currentReturnType: string = "void";
+
+    // Enclosing loops and labeled statements (innermost last) for break/continue
+    private jumpTargets: JumpTarget[] = [];
+
+    // Closure support: lifted arrow functions, and closure thunks by function pointer type
+    private lambdaCounter: number = 0;
+    private closureThunks: Map<string, string> = new Map();
+
     constructor(sourceFile: ts.SourceFile, program: ts.Program, moduleName: string, emitter?: Emitter) {
         this.sourceFile = sourceFile;
         this.program = program;
         this.typeChecker = program.getTypeChecker();
         this.emitter = emitter || new Emitter(moduleName);
-        this.context = new Context();
+        this.context = new Context(this.globalScope);
         this.currentModule = moduleName;
     }
 
@@ -69,10 +155,12 @@ export class ASTWalker {
      */
     setSharedRegistries(
         externFunctions: Map<string, ExternFunction>,
-        internalFunctions: Map<string, InternalFunction>
+        internalFunctions: Map<string, InternalFunction>,
+        globalVariables: Map<string, Variable>
     ): void {
         this.externFunctions = externFunctions;
         this.internalFunctions = internalFunctions;
+        this.globalVariables = globalVariables;
     }
 
     /**
@@ -82,6 +170,12 @@ export class ASTWalker {
         for (const imp of imports) {
             const mangledName = `${imp.fromModule}_${imp.exportedName}`;
             this.importMap.set(imp.localName, mangledName);
+
+            // Imported globals resolve like this module's own globals
+            const global = this.globalVariables.get(mangledName);
+            if (global) {
+                this.globalScope.set(imp.localName, global);
+            }
         }
     }
 
@@ -89,10 +183,25 @@ export class ASTWalker {
      * Walk the entire source file and generate LLVM IR
      */
     walk(): string {
-        // First pass: collect all interface declarations (structs)
+        // First pass: collect all enum, interface and class declarations (structs may use enum fields)
+        // Interfaces and classes are forward-declared first so fields can refer to any of them
+        // (linked lists, trees, mutually recursive structs)
+        ts.forEachChild(this.sourceFile, (node) => {
+            if (ts.isEnumDeclaration(node)) {
+                this.visitEnumDeclaration(node);
+            } else if (ts.isInterfaceDeclaration(node) && !node.typeParameters) {
+                this.structRegistry.declare(node.name.getText(this.sourceFile));
+                this.interfaceDeclarations.set(node.name.getText(this.sourceFile), node);
+            } else if (ts.isClassDeclaration(node) && node.name) {
+                this.structRegistry.declare(node.name.getText(this.sourceFile));
+                this.classDeclarations.set(node.name.getText(this.sourceFile), node);
+            }
+        });
         ts.forEachChild(this.sourceFile, (node) => {
             if (ts.isInterfaceDeclaration(node)) {
                 this.visitInterfaceDeclaration(node);
+            } else if (ts.isClassDeclaration(node)) {
+                this.visitClassDeclaration(node);
             }
         });
 
@@ -104,18 +213,27 @@ export class ASTWalker {
             }
         });
 
-        // Third pass: process all function definitions
+        // Third pass: module-level variables and constants (LLVM globals)
+        ts.forEachChild(this.sourceFile, (node) => {
+            if (ts.isVariableStatement(node)) {
+                this.visitGlobalVariableStatement(node);
+            }
+        });
+
+        // Fourth pass: process all function definitions and class methods
         // This will trigger instantiation of generics used in function bodies
         ts.forEachChild(this.sourceFile, (node) => {
             if (ts.isFunctionDeclaration(node) && node.body) {
                 this.visitFunctionDeclaration(node);
+            } else if (ts.isClassDeclaration(node)) {
+                this.emitClassMethods(node);
             }
         });
 
         // Emit struct types to IR (after generic instantiation)
         for (const struct of this.structRegistry.getTopologicalOrder()) {
             const fieldTypes = struct.fields.map(f => f.type);
-            this.emitter.addStructType(struct.name, fieldTypes);
+            this.emitter.addStructType(struct.name, fieldTypes, struct.isPacked);
         }
 
         return this.emitter.getOutput();
@@ -145,7 +263,9 @@ export class ASTWalker {
 
             const paramName = param.name.getText(this.sourceFile);
             let paramType = "i32";
-            if (param.type) {
+            if (param.type && ts.isFunctionTypeNode(param.type)) {
+                paramType = this.resolveLLVMType(param.type);  // Callbacks (qsort's comparator)
+            } else if (param.type) {
                 paramType = TypeMapper.mapType(param.type.getText(this.sourceFile));
             }
             params.push({ name: paramName, type: paramType });
@@ -157,6 +277,7 @@ export class ASTWalker {
             returnType: llvmReturnType,
             params,
             isVariadic,
+            unsignedReturn: TypeMapper.isUnsigned(returnType),
         });
 
         // Emit the extern declaration
@@ -175,12 +296,10 @@ export class ASTWalker {
             return;
         }
 
-        // Reset context for new function
-        this.context = new Context();
-
         // Get return type
-        const returnType = this.getReturnType(node);
-        const llvmReturnType = TypeMapper.mapType(returnType);
+        const llvmReturnType = node.type
+            ? this.resolveLLVMType(node.type)
+            : TypeMapper.mapType(this.getReturnType(node));
 
         // Check if first parameter is "this" (method syntax)
         let isMethod = false;
@@ -192,27 +311,15 @@ export class ASTWalker {
 
             if (paramName === "this" && firstParam.type) {
                 isMethod = true;
-                structType = firstParam.type.getText(this.sourceFile);
+                structType = this.resolveTypeName(firstParam.type);
             }
         }
 
-        // Process parameters
+        // Process parameters (struct parameters, including "this", are pointers)
         const params: { name: string; type: string }[] = [];
         for (const param of node.parameters) {
             const paramName = param.name.getText(this.sourceFile);
-            let paramType = "i32";
-
-            if (param.type) {
-                const tsType = param.type.getText(this.sourceFile);
-                // For "this" parameter, it's a pointer to the struct
-                if (paramName === "this" && this.structRegistry.get(tsType)) {
-                    paramType = `%${tsType}*`;
-                } else if (this.structRegistry.get(tsType)) {
-                    paramType = `%${tsType}*`;
-                } else {
-                    paramType = TypeMapper.mapType(tsType);
-                }
-            }
+            const paramType = param.type ? this.resolveLLVMType(param.type) : "i32";
             params.push({ name: paramName, type: paramType });
         }
 
@@ -229,24 +336,13 @@ export class ASTWalker {
             mangledName = `${this.currentModule}_${funcName}`;
         }
 
-        // Emit function start with parameters
-        const paramStr = params.map(p => `${p.type} %${p.name}.param`).join(", ");
-        this.emitter.emitLine(`define ${llvmReturnType} @${mangledName}(${paramStr}) {`);
-        this.emitter.emitLine("entry:");
-
-        // Allocate stack space for parameters and store the incoming values
-        for (const param of params) {
-            const variable = this.context.declareVariable(param.name, param.type);
-            this.emitter.emitAlloca(variable.llvmName, param.type);
-            this.emitter.emitStore(param.type, `%${param.name}.param`, variable.llvmName);
-        }
-
         // Register function
         const funcInfo: InternalFunction = {
             name: funcName,
             mangledName,
             returnType: llvmReturnType,
             params,
+            unsignedReturn: node.type ? TypeMapper.isUnsigned(node.type.getText(this.sourceFile)) : false,
         };
 
         // Register in appropriate registry
@@ -261,21 +357,219 @@ export class ASTWalker {
         // Also register in internalFunctions for direct calls
         this.internalFunctions.set(funcName, funcInfo);
 
+        this.emitFunctionDefinition(funcInfo, node.parameters, node.body);
+    }
+
+    /**
+     * Emit the LLVM definition of a function: parameters are copied to stack slots,
+     * then the prologue (a constructor's field initializers) and the body run
+     */
+    private emitFunctionDefinition(
+        funcInfo: InternalFunction,
+        parameters: readonly ts.ParameterDeclaration[],
+        body: ts.Block | undefined,
+        prologue?: () => void
+    ): void {
+        // Reset context for new function (module-level variables stay visible)
+        this.context = new Context(this.globalScope);
+        this.currentReturnType = funcInfo.returnType;
+
+        // Emit function start with parameters
+        const paramStr = funcInfo.params.map(p => `${p.type} %${p.name}.param`).join(", ");
+        this.emitter.emitLine(`define ${funcInfo.returnType} @${funcInfo.mangledName}(${paramStr}) {`);
+        this.emitter.emitLabel("entry");
+
+        // Allocate stack space for parameters and store the incoming values
+        // (a class method's "this" has no declaration)
+        for (const param of funcInfo.params) {
+            const typeNode = parameters.find(p => p.name.getText(this.sourceFile) === param.name)?.type;
+            const isUnsigned = typeNode ? TypeMapper.isUnsigned(typeNode.getText(this.sourceFile)) : false;
+            const variable = this.context.declareVariable(param.name, param.type, isUnsigned);
+            this.emitter.emitAlloca(variable.llvmName, param.type);
+            this.emitter.emitStore(param.type, `%${param.name}.param`, variable.llvmName);
+        }
+
+        prologue?.();
+
         // Process function body
-        if (node.body) {
-            this.visitBlock(node.body);
+        if (body) {
+            this.visitBlock(body);
         }
 
         // For void functions, ensure there's a ret void at the end
-        // (in case there's no explicit return statement)
-        if (llvmReturnType === "void") {
+        // (in case there's no explicit return statement); other functions
+        // must have returned already, so the final block is unreachable
+        if (funcInfo.returnType === "void") {
             this.emitter.emitReturn("void", "");
+        } else {
+            this.emitter.emitLine("unreachable");
         }
 
         // Emit function end
         this.emitter.emitFunctionEnd();
     }
 
+    /**
+     * Process a module-level variable statement
+     * let becomes a mutable global, const an LLVM constant; both are internal unless exported
+     */
+    private visitGlobalVariableStatement(node: ts.VariableStatement): void {
+        const isExported = ts.getModifiers(node)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+        const isConstant = (node.declarationList.flags & ts.NodeFlags.Const) !== 0;
+
+        for (const decl of node.declarationList.declarations) {
+            this.visitGlobalVariableDeclaration(decl, isConstant, isExported);
+        }
+    }
+
+    /**
+     * Process a single module-level variable: @module_name = internal global i32 0
+     */
+    private visitGlobalVariableDeclaration(node: ts.VariableDeclaration, isConstant: boolean, isExported: boolean): void {
+        const name = node.name.getText(this.sourceFile);
+        const mangledName = `${this.currentModule}_${name}`;
+
+        const initValue = node.initializer ? this.evaluateGlobalInitializer(node.initializer, name) : undefined;
+
+        // Determine type: explicit annotation, then initializer, then the type checker
+        let llvmType: string;
+        let isUnsigned = false;
+        if (node.type) {
+            llvmType = this.resolveLLVMType(node.type);
+            isUnsigned = TypeMapper.isUnsigned(node.type.getText(this.sourceFile));
+        } else if (initValue) {
+            llvmType = initValue.type;
+            isUnsigned = initValue.unsigned ?? false;
+        } else {
+            llvmType = this.getExpressionType(node);
+        }
+
+        // Globals without an initializer start zeroed, as in C
+        let initializer = "zeroinitializer";
+        let constantValue: string | undefined;
+        if (initValue) {
+            initializer = this.coerceValue(initValue, llvmType, isUnsigned).value;
+            // Numeric constants are folded into the code that reads them
+            if (isConstant && (TypeMapper.isInteger(llvmType) || TypeMapper.isFloat(llvmType))) {
+                constantValue = initializer;
+            }
+        }
+
+        this.emitter.addGlobal(mangledName, llvmType, initializer, isConstant, !isExported);
+
+        const variable = this.context.declareGlobal(name, `@${mangledName}`, llvmType, isUnsigned, isConstant, constantValue);
+        this.globalVariables.set(mangledName, variable);
+    }
+
+    /**
+     * Evaluate a global's initializer, which must fold to a compile-time constant
+     */
+    private evaluateGlobalInitializer(node: ts.Expression, name: string): TypedValue {
+        // String literals become a constant pointer to the string's first character
+        if (ts.isStringLiteral(node)) {
+            return { value: this.getStringConstantPointer(node.text), type: "i8*" };
+        }
+        if (this.isNullLiteral(node)) {
+            this.checkNullAssignment(node);
+            return { value: "null", type: "i8*" };
+        }
+
+        const value = this.evaluateConstant(node);
+        if (!value) {
+            throw new Error(`Initializer of global '${name}' must be a compile-time constant`);
+        }
+        return value;
+    }
+
+    /**
+     * Process an enum declaration
+     * Members become i32 constants; regular enums also get an EnumName_toString function
+     */
+    private visitEnumDeclaration(node: ts.EnumDeclaration): void {
+        const enumName = node.name.getText(this.sourceFile);
+        const isConst = ts.getModifiers(node)?.some(m => m.kind === ts.SyntaxKind.ConstKeyword) ?? false;
+        const members: EnumMember[] = [];
+
+        // Initializers may refer to earlier members by their bare name (B = A * 2)
+        this.context.pushScope();
+        let nextValue = 0;
+        for (const member of node.members) {
+            const memberName = member.name.getText(this.sourceFile);
+
+            if (member.initializer) {
+                if (ts.isStringLiteral(member.initializer)) {
+                    throw new Error(`String enum members are not supported: ${enumName}.${memberName}`);
+                }
+                const value = this.evaluateConstant(member.initializer);
+                if (!value || !TypeMapper.isInteger(value.type)) {
+                    throw new Error(`Enum member ${enumName}.${memberName} must be a constant integer`);
+                }
+                nextValue = Number(this.coerceValue(value, "i32").value);
+            }
+
+            members.push({ name: memberName, value: nextValue });
+            this.context.declareConstant(memberName, "i32", false, nextValue.toString());
+            nextValue++;
+        }
+        this.context.popScope();
+
+        this.enumRegistry.register(enumName, members, isConst);
+
+        // const enums are inlined everywhere and have no runtime representation
+        if (!isConst) {
+            this.emitEnumToString(enumName, members);
+        }
+    }
+
+    /**
+     * Emit EnumName_toString: a switch over the member values returning their names
+     * (LLVM turns dense switches into lookup tables; sparse and flag enums stay small)
+     *
+     * Generates (with the module prefix, like other functions):
+     *   define i8* @main_Color_toString(i32 %value) {
+     *     switch i32 %value, label %unknown [ i32 0, label %case0 ... ]
+     *   case0:
+     *     ret i8* getelementptr inbounds (... @.str.N ...)
+     *   ...
+     */
+    private emitEnumToString(enumName: string, members: EnumMember[]): void {
+        const name = `${enumName}_toString`;
+        const mangledName = `${this.currentModule}_${name}`;
+        const unknown = this.getStringConstantPointer("?");
+
+        // Members sharing a value: the last one names it, as in TypeScript's reverse mapping
+        const names = new Map<number, string>();
+        for (const member of members) {
+            names.set(member.value, member.name);
+        }
+        const values = [...names.keys()];
+
+        this.emitter.emitLine(`define i8* @${mangledName}(i32 %value) {`);
+        this.emitter.emitLabel("entry");
+        const cases = values.map((value, i) => `i32 ${value}, label %case${i}`);
+        this.emitter.emitLine(`switch i32 %value, label %unknown [ ${cases.join(" ")} ]`);
+        values.forEach((value, i) => {
+            this.emitter.emitLabel(`case${i}`);
+            this.emitter.emitReturn("i8*", this.getStringConstantPointer(names.get(value)!));
+        });
+        this.emitter.emitLabel("unknown");
+        this.emitter.emitReturn("i8*", unknown);
+        this.emitter.emitFunctionEnd();
+
+        // Callable directly (Color_toString(c)) or as a method (c.toString())
+        const funcInfo: InternalFunction = {
+            name,
+            mangledName,
+            returnType: "i8*",
+            params: [{ name: "value", type: "i32" }],
+        };
+        this.internalFunctions.set(name, funcInfo);
+        if (!this.methodRegistry.has(enumName)) {
+            this.methodRegistry.set(enumName, new Map());
+        }
+        this.methodRegistry.get(enumName)!.set("toString", funcInfo);
+    }
+
     /**
      * Process an interface declaration (becomes LLVM struct)
      */
@@ -290,8 +584,20 @@ export class ASTWalker {
             return;
         }
 
-        // Non-generic interface - process as regular struct
-        const fields: { name: string; tsType: string; llvmType: string }[] = [];
+        // Already defined (bases are processed before the interfaces extending them)
+        if (this.structRegistry.get(interfaceName)) {
+            return;
+        }
+
+        // An interface declaring methods is implemented by classes (class Square implements HasArea)
+        if (node.members.some(ts.isMethodSignature)) {
+            this.visitMethodInterface(node, interfaceName);
+            return;
+        }
+
+        // Non-generic interface - process as regular struct, base fields first
+        const baseStruct = this.getInterfaceBase(node, this.sourceFile, {});
+        const fields = this.getInheritedFields(baseStruct);
 
         for (const member of node.members) {
             // Only process property signatures
@@ -299,182 +605,1053 @@ export class ASTWalker {
                 continue;  // Skip methods for now
             }
 
-            // Skip optional properties
-            if (member.questionToken) {
-                throw new Error(`Optional properties not supported in interface ${interfaceName}`);
-            }
-
             const fieldName = member.name.getText(this.sourceFile);
             let tsType = "number";  // Default
             let llvmType = "i32";   // Default
 
             if (member.type) {
                 tsType = member.type.getText(this.sourceFile);
+                llvmType = this.getFieldType(member.type, interfaceName);
+            }
 
-                // Check if field type is another struct
-                if (this.structRegistry.isStruct(tsType)) {
-                    llvmType = `%${tsType}*`;  // Pointer to struct
-                } else {
-                    llvmType = TypeMapper.mapType(tsType);
-                }
+            // Optional properties (next?: Node) are nullable pointers
+            const isOptional = member.questionToken !== undefined;
+            if (isOptional && !llvmType.endsWith("*")) {
+                throw new Error(`Optional property '${fieldName}' of ${interfaceName} must be a pointer type`);
             }
 
-            fields.push({ name: fieldName, tsType, llvmType });
+            this.addField(fields, { name: fieldName, tsType, llvmType, isOptional }, interfaceName);
         }
 
         // Register the struct
-        this.structRegistry.register(interfaceName, fields);
+        this.structRegistry.register(interfaceName, fields, baseStruct, this.isPackedInterface(node, baseStruct));
     }
 
     /**
-     * Process a block statement
+     * Process an interface declaring methods: its values are instances of classes implementing it,
+     * and its methods are called through the object's itable for it (see emitInterfaceTables)
+     * The interface's identity is the address of @HasArea_iid
      */
-    private visitBlock(node: ts.Block): void {
-        this.context.pushScope();
-        for (const statement of node.statements) {
-            this.visitStatement(statement);
+    private visitMethodInterface(node: ts.InterfaceDeclaration, interfaceName: string): void {
+        if (node.heritageClauses) {
+            throw new Error(`Interface ${interfaceName} declares methods, so it cannot extend another interface`);
         }
-        this.context.popScope();
-    }
 
-    /**
-     * Process a statement
-     */
-    private visitStatement(node: ts.Statement): void {
-        if (ts.isReturnStatement(node)) {
-            this.visitReturnStatement(node);
-        } else if (ts.isVariableStatement(node)) {
-            this.visitVariableStatement(node);
-        } else if (ts.isExpressionStatement(node)) {
-            this.visitExpression(node.expression);
-        } else if (ts.isIfStatement(node)) {
-            this.visitIfStatement(node);
-        } else if (ts.isWhileStatement(node)) {
-            this.visitWhileStatement(node);
-        } else if (ts.isForStatement(node)) {
-            this.visitForStatement(node);
-        } else if (ts.isBlock(node)) {
-            this.visitBlock(node);
+        const methods: Map<string, InternalFunction> = new Map();
+        for (const member of node.members) {
+            const memberName = member.name?.getText(this.sourceFile) ?? "";
+            if (!ts.isMethodSignature(member)) {
+                throw new Error(`Interface ${interfaceName} declares methods, so it cannot declare property '${memberName}'`);
+            }
+            if (member.typeParameters) {
+                throw new Error(`Generic method '${memberName}' of interface ${interfaceName} is not supported`);
+            }
+            if (methods.has(memberName)) {
+                throw new Error(`Overloaded method '${memberName}' of interface ${interfaceName} is not supported`);
+            }
+
+            methods.set(memberName, {
+                name: memberName,
+                mangledName: `${interfaceName}_${memberName}`,
+                returnType: member.type
+                    ? this.resolveLLVMType(member.type)
+                    : TypeMapper.mapType(this.getReturnType(member)),
+                params: this.getClassMethodParams(member.parameters, interfaceName),
+                unsignedReturn: member.type ? TypeMapper.isUnsigned(member.type.getText(this.sourceFile)) : false,
+                interfaceName,
+                vtableIndex: methods.size,
+            });
         }
+
+        this.structRegistry.register(interfaceName, []);
+        this.methodRegistry.set(interfaceName, methods);
+        this.interfaceMethods.set(interfaceName, [...methods.keys()]);
+        this.emitter.addGlobal(`${interfaceName}_iid`, "i8", "0", true, true);
     }
 
     /**
-     * Process a variable statement (let x = 5;)
+     * Get the LLVM type a field is stored as
+     * Inline<Point> embeds the struct by value; other struct fields
+     * (including forward and self references) are pointers to struct
      */
-    private visitVariableStatement(node: ts.VariableStatement): void {
-        for (const decl of node.declarationList.declarations) {
-            this.visitVariableDeclaration(decl);
-        }
+    private getFieldType(typeNode: ts.TypeNode, structName: string): string {
+        const parsed = this.typeResolver.parseTypeNode(typeNode, this.sourceFile);
+        const inlineStruct = this.getInlineStruct(parsed, {}, structName);
+        return inlineStruct
+            ? `%${inlineStruct}`
+            : TypeMapper.getStorageType(this.resolveLLVMType(typeNode));
     }
 
     /**
-     * Process a single variable declaration
+     * Resolve the base struct of an interface (interface Circle extends Shape)
+     * The base is defined first if it appears later in the source
      */
-    private visitVariableDeclaration(node: ts.VariableDeclaration): void {
-        const name = node.name.getText(this.sourceFile);
+    private getInterfaceBase(
+        node: ts.InterfaceDeclaration,
+        sourceFile: ts.SourceFile,
+        typeSubst: Record<string, string>
+    ): string | undefined {
+        const extendsClause = node.heritageClauses?.find(h => h.token === ts.SyntaxKind.ExtendsKeyword);
+        if (!extendsClause) {
+            return undefined;
+        }
 
-        // Determine type
-        let llvmType = "i32";  // Default
-        let isStructType = false;
-        let structTypeName = "";
+        const interfaceName = node.name.getText(sourceFile);
+        if (extendsClause.types.length > 1) {
+            throw new Error(`Interface ${interfaceName} can only extend one interface`);
+        }
 
-        if (node.type) {
-            const tsType = this.resolveTypeName(node.type);
+        const parsed = this.typeResolver.parseTypeNode(extendsClause.types[0], sourceFile);
+        const baseName = this.resolveTypeArgument(parsed, typeSubst);
 
-            // Check if this is a struct type
-            if (this.structRegistry.get(tsType)) {
-                isStructType = true;
-                structTypeName = tsType;
-                llvmType = `%${tsType}*`;  // Struct variables are pointers
-            } else {
-                llvmType = TypeMapper.mapType(tsType);
-            }
+        if (!this.defineInterfaceFirst(baseName, interfaceName)) {
+            throw new Error(`Interface ${interfaceName} extends an unknown or circular base '${baseName}'`);
         }
 
-        // Declare variable in context
-        const variable = this.context.declareVariable(name, llvmType);
-
-        // Emit alloca for stack allocation
-        this.emitter.emitAlloca(variable.llvmName, llvmType);
+        return baseName;
+    }
 
-        // If there's an initializer, store the value
-        if (node.initializer) {
-            const value = this.visitExpression(node.initializer);
+    /**
+     * Resolve an Inline<T> field type to the struct it embeds by value (undefined for other types)
+     * The embedded struct is defined first so its size is known
+     */
+    private getInlineStruct(
+        parsed: ParsedTypeReference,
+        typeSubst: Record<string, string>,
+        structName: string
+    ): string | undefined {
+        if (!parsed.isGeneric || parsed.baseName !== "Inline") {
+            return undefined;
+        }
+        if (parsed.typeArgs.length !== 1) {
+            throw new Error(`Inline<T> in ${structName} takes exactly one type argument`);
+        }
 
-            // If struct type and initializer is from malloc (i8*), bitcast it
-            if (isStructType) {
-                const castedPtr = this.context.nextTemp();
-                this.emitter.emitBitcast(castedPtr, "i8*", value, `%${structTypeName}*`);
-                this.emitter.emitStore(llvmType, castedPtr, variable.llvmName);
-            } else {
-                this.emitter.emitStore(llvmType, value, variable.llvmName);
-            }
+        const inlineName = this.resolveTypeArgument(parsed.typeArgs[0], typeSubst);
+        if (!this.structRegistry.isStruct(inlineName)) {
+            throw new Error(`Inline<${inlineName}> in ${structName} must wrap an interface or class type`);
+        }
+        if (!this.defineInterfaceFirst(inlineName, structName)) {
+            throw new Error(`Struct ${structName} contains itself by value through Inline<${inlineName}>`);
         }
+        return inlineName;
     }
 
     /**
-     * Process a return statement
+     * Define a struct that another struct depends on (its base or an inline field)
+     * Returns false if it is unknown or still being defined (a cycle)
      */
-    private visitReturnStatement(node: ts.ReturnStatement): void {
-        if (node.expression) {
-            const value = this.visitExpression(node.expression);
-            // For now, assume i32 return type
-            this.emitter.emitReturn("i32", value);
+    private defineInterfaceFirst(name: string, dependentName: string): boolean {
+        if (this.structRegistry.get(name)) {
+            return true;
+        }
+
+        const node = this.interfaceDeclarations.get(name) ?? this.classDeclarations.get(name);
+        if (!node || this.definingInterfaces.has(name)) {
+            return false;
+        }
+        this.definingInterfaces.add(dependentName);
+        if (ts.isClassDeclaration(node)) {
+            this.visitClassDeclaration(node);
         } else {
-            this.emitter.emitReturn("void", "");
+            this.visitInterfaceDeclaration(node);
         }
+        this.definingInterfaces.delete(dependentName);
+        return true;
     }
 
     /**
-     * Process an if statement
-     * 
-     * Generates:
-     *   %cond = <condition>
-     *   br i1 %cond, label %then, label %else
-     * then:
-     *   <then body>
-     *   br label %endif
-     * else:
-     *   <else body>
-     *   br label %endif
-     * endif:
+     * Check if an interface opts into packed layout with a @packed JSDoc tag
+     * Interfaces extending a packed interface are packed too, so the base layout is kept
      */
-    private visitIfStatement(node: ts.IfStatement): void {
-        const thenLabel = this.context.nextLabel("if.then");
-        const elseLabel = this.context.nextLabel("if.else");
-        const endLabel = this.context.nextLabel("if.end");
-
-        // Evaluate condition
-        const condition = this.visitExpression(node.expression);
-
-        // Convert to i1 if needed (compare with 0)
-        const condReg = this.ensureBooleanCondition(condition);
-
-        if (node.elseStatement) {
-            // Branch based on condition
-            this.emitter.emitConditionalBranch(condReg, thenLabel, elseLabel);
-
-            // Then block
-            this.emitter.emitLabel(thenLabel);
-            this.visitStatement(node.thenStatement);
-            this.emitter.emitBranch(endLabel);
-
-            // Else block
-            this.emitter.emitLabel(elseLabel);
-            this.visitStatement(node.elseStatement);
-            this.emitter.emitBranch(endLabel);
-        } else {
-            // No else block
-            this.emitter.emitConditionalBranch(condReg, thenLabel, endLabel);
+    private isPackedInterface(node: ts.InterfaceDeclaration, baseStruct: string | undefined): boolean {
+        const hasTag = ts.getJSDocTags(node).some(tag => tag.tagName.text === "packed");
+        return hasTag || (baseStruct !== undefined && this.structRegistry.get(baseStruct)!.isPacked);
+    }
 
-            // Then block
-            this.emitter.emitLabel(thenLabel);
-            this.visitStatement(node.thenStatement);
-            this.emitter.emitBranch(endLabel);
+    /**
+     * Get the fields a struct starts with: a copy of its base's fields, in order
+     */
+    private getInheritedFields(baseStruct: string | undefined): FieldDeclaration[] {
+        if (!baseStruct) {
+            return [];
         }
+        return this.structRegistry.get(baseStruct)!.fields.map(f => ({
+            name: f.name, tsType: f.tsType, llvmType: f.type, isOptional: f.isOptional,
+            declaringClass: f.declaringClass, isPrivate: f.isPrivate, isProtected: f.isProtected, isReadonly: f.isReadonly,
+        }));
+    }
 
-        // End label (continuation)
-        this.emitter.emitLabel(endLabel);
+    /**
+     * Add a field to a struct being defined
+     * Redeclaring an inherited field keeps its slot; its type must not change
+     */
+    private addField(
+        fields: FieldDeclaration[],
+        field: FieldDeclaration,
+        structName: string
+    ): void {
+        const existing = fields.find(f => f.name === field.name);
+        if (!existing) {
+            fields.push(field);
+        } else if (existing.llvmType !== field.llvmType) {
+            throw new Error(`Field '${field.name}' of ${structName} changes the type of an inherited field`);
+        }
+    }
+
+    /**
+     * Process a class declaration (becomes an LLVM struct)
+     * Fields come from property declarations and constructor parameter properties; the
+     * constructor and methods are registered here so calls may precede their definitions
+     */
+    private visitClassDeclaration(node: ts.ClassDeclaration): void {
+        const className = node.name?.getText(this.sourceFile);
+        if (!className) {
+            throw new Error("Anonymous classes are not supported");
+        }
+
+        // Already defined (a base class, or embedded by value in a struct defined earlier)
+        if (this.structRegistry.get(className)) {
+            return;
+        }
+        if (node.typeParameters) {
+            throw new Error(`Generic class ${className} is not supported`);
+        }
+
+        // Classes in a hierarchy or implementing interfaces start with a hidden vtable pointer
+        // (inherited from the base)
+        const baseClass = this.getClassBase(node, className);
+        const interfaces = this.getImplementedInterfaces(node, className);
+        const isAbstract = this.hasModifier(node, ts.SyntaxKind.AbstractKeyword);
+        const isPolymorphic = baseClass !== undefined || isAbstract || interfaces.length > 0
+            || this.getSubclasses(className).length > 0;
+        const fields = this.getInheritedFields(baseClass);
+        if (isPolymorphic && !baseClass) {
+            fields.push({ name: VTABLE_FIELD, tsType: "vtable", llvmType: "i8**" });
+        }
+        const vtable = baseClass ? [...this.classVTables.get(baseClass)!] : [];
+
+        const methods: Map<string, InternalFunction> = this.methodRegistry.get(className) ?? new Map();
+        let constructorNode: ts.ConstructorDeclaration | undefined;
+
+        for (const member of node.members) {
+            const memberName = member.name?.getText(this.sourceFile) ?? "constructor";
+            if (this.hasModifier(member, ts.SyntaxKind.StaticKeyword)) {
+                throw new Error(`Static member '${memberName}' of class ${className} is not supported`);
+            }
+
+            if (ts.isPropertyDeclaration(member)) {
+                this.addField(fields, this.getClassField(member, className), className);
+            } else if (ts.isConstructorDeclaration(member) && member.body) {
+                // Parameter properties (constructor(private x: f64)) are fields too
+                constructorNode = member;
+                for (const param of member.parameters) {
+                    if (ts.isParameterPropertyDeclaration(param, member)) {
+                        this.addField(fields, this.getClassField(param, className), className);
+                    }
+                }
+            } else if (ts.isMethodDeclaration(member) && (member.body || this.hasModifier(member, ts.SyntaxKind.AbstractKeyword))) {
+                methods.set(memberName, this.getClassMethod(member, className, baseClass, vtable));
+            } else if (ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+                throw new Error(`Accessor '${memberName}' of class ${className} is not supported`);
+            }
+        }
+
+        this.structRegistry.register(className, fields, baseClass);
+        this.methodRegistry.set(className, methods);
+        this.checkInterfaceMethods(className, interfaces);
+
+        if (isPolymorphic) {
+            this.classVTables.set(className, vtable);
+            if (!isAbstract) {
+                this.emitVTable(className, vtable);
+            }
+        }
+
+        // Every class has a constructor; without a declared one it only runs the field
+        // initializers, after passing its arguments on to the base constructor
+        const inheritedParams = baseClass && !constructorNode
+            ? this.classConstructors.get(baseClass)!.params.slice(1)
+            : [];
+        this.classConstructors.set(className, {
+            name: "constructor",
+            mangledName: `${className}_constructor`,
+            returnType: "void",
+            params: [...this.getClassMethodParams(constructorNode?.parameters ?? [], className), ...inheritedParams],
+        });
+    }
+
+    /**
+     * Resolve the base class of a class (class Circle extends Shape)
+     * The base is defined first if it appears later in the source
+     */
+    private getClassBase(node: ts.ClassDeclaration, className: string): string | undefined {
+        const baseName = this.getBaseClassName(node);
+        if (!baseName) {
+            return undefined;
+        }
+        if (!this.classDeclarations.has(baseName)) {
+            throw new Error(`Class ${className} can only extend a class of this module, not '${baseName}'`);
+        }
+        if (!this.defineInterfaceFirst(baseName, className)) {
+            throw new Error(`Class ${className} extends itself through '${baseName}'`);
+        }
+        return baseName;
+    }
+
+    /**
+     * Get the name in the extends clause of a class, if any
+     */
+    private getBaseClassName(node: ts.ClassDeclaration): string | undefined {
+        const extendsClause = node.heritageClauses?.find(h => h.token === ts.SyntaxKind.ExtendsKeyword);
+        return extendsClause?.types[0].expression.getText(this.sourceFile);
+    }
+
+    /**
+     * Resolve the interfaces a class implements (class Square implements HasArea)
+     * They are defined first if they appear later in the source
+     */
+    private getImplementedInterfaces(node: ts.ClassDeclaration, className: string): string[] {
+        const implementsClause = node.heritageClauses?.find(h => h.token === ts.SyntaxKind.ImplementsKeyword);
+        return (implementsClause?.types ?? []).map(type => {
+            const interfaceName = type.expression.getText(this.sourceFile);
+            this.defineInterfaceFirst(interfaceName, className);
+            if (!this.interfaceMethods.has(interfaceName)) {
+                throw new Error(`Class ${className} can only implement interfaces of this module declaring methods, not '${interfaceName}'`);
+            }
+            return interfaceName;
+        });
+    }
+
+    /**
+     * Get the interfaces a class implements, including those of its base classes
+     */
+    private getAllInterfaces(className: string): string[] {
+        const interfaces: string[] = [];
+        for (let type: string | undefined = className; type; type = this.structRegistry.get(type)?.baseName) {
+            const node = this.classDeclarations.get(type);
+            for (const interfaceName of node ? this.getImplementedInterfaces(node, type) : []) {
+                if (!interfaces.includes(interfaceName)) {
+                    interfaces.push(interfaceName);
+                }
+            }
+        }
+        return interfaces;
+    }
+
+    /**
+     * Check that a class has a public method with the signature of each method of the interfaces
+     * it implements (declared or inherited; emitVTable rejects abstract ones in concrete classes)
+     */
+    private checkInterfaceMethods(className: string, interfaces: string[]): void {
+        for (const interfaceName of interfaces) {
+            for (const expected of this.methodRegistry.get(interfaceName)!.values()) {
+                const method = this.findMethod(className, expected.name);
+                if (!method || method.isPrivate || method.isProtected) {
+                    throw new Error(`Class ${className} must implement method '${expected.name}' of interface ${interfaceName}`);
+                }
+                const paramTypes = method.params.slice(1).map(p => p.type).join(", ");
+                const expectedParamTypes = expected.params.slice(1).map(p => p.type).join(", ");
+                if (method.returnType !== expected.returnType || paramTypes !== expectedParamTypes) {
+                    throw new Error(`Method '${expected.name}' of ${className} does not match the signature of ${interfaceName}.${expected.name}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the classes of this module that directly extend a class
+     */
+    private getSubclasses(className: string): ts.ClassDeclaration[] {
+        return [...this.classDeclarations.values()].filter(c => this.getBaseClassName(c) === className);
+    }
+
+    /**
+     * Check if a method is redeclared in any (indirect) subclass of a class
+     */
+    private isOverridden(className: string, methodName: string): boolean {
+        return this.getSubclasses(className).some(sub =>
+            sub.members.some(m => ts.isMethodDeclaration(m) && m.name.getText(this.sourceFile) === methodName) ||
+            this.isOverridden(sub.name!.getText(this.sourceFile), methodName)
+        );
+    }
+
+    /**
+     * Check if a class is, or (indirectly) extends, another class
+     */
+    private isSubclassOf(className: string, baseName: string): boolean {
+        for (let type: string | undefined = className; type; type = this.structRegistry.get(type)?.baseName) {
+            if (type === baseName) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Get a class method: @Class_method(%Class* this, ...)
+     * An override takes the vtable slot of the base method; a method that is abstract or
+     * overridden in a subclass gets a new slot; other methods are called directly
+     */
+    private getClassMethod(
+        member: ts.MethodDeclaration,
+        className: string,
+        baseClass: string | undefined,
+        vtable: string[]
+    ): InternalFunction {
+        const methodName = member.name.getText(this.sourceFile);
+        if (member.typeParameters) {
+            throw new Error(`Generic method '${methodName}' of class ${className} is not supported`);
+        }
+
+        const method: InternalFunction = {
+            name: methodName,
+            mangledName: `${className}_${methodName}`,
+            returnType: member.type
+                ? this.resolveLLVMType(member.type)
+                : TypeMapper.mapType(this.getReturnType(member)),
+            params: this.getClassMethodParams(member.parameters, className),
+            unsignedReturn: member.type ? TypeMapper.isUnsigned(member.type.getText(this.sourceFile)) : false,
+            declaringClass: className,
+            isPrivate: this.hasModifier(member, ts.SyntaxKind.PrivateKeyword),
+            isProtected: this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword),
+            isAbstract: member.body === undefined,
+        };
+
+        const baseMethod = baseClass ? this.findMethod(baseClass, methodName) : undefined;
+        if (baseMethod?.vtableIndex !== undefined) {
+            const paramTypes = method.params.slice(1).map(p => p.type).join(", ");
+            const baseParamTypes = baseMethod.params.slice(1).map(p => p.type).join(", ");
+            if (method.returnType !== baseMethod.returnType || paramTypes !== baseParamTypes) {
+                throw new Error(`Method '${methodName}' of ${className} does not match the signature of ${baseMethod.declaringClass}.${methodName}`);
+            }
+            method.vtableIndex = baseMethod.vtableIndex;
+        } else if (method.isAbstract || (!method.isPrivate && this.isOverridden(className, methodName))) {
+            method.vtableIndex = vtable.length;
+            vtable.push(methodName);
+        }
+        return method;
+    }
+
+    /**
+     * Emit the vtable of a concrete class: @Circle_vtable = internal constant [N + 1 x i8*]
+     * pointing to its interface tables, then holding the implementation of each virtual method,
+     * in slot order
+     */
+    private emitVTable(className: string, slots: string[]): void {
+        const entries = slots.map(methodName => this.getMethodPointer(className, methodName, `abstract method '${methodName}'`));
+        const initializer = `[${[this.emitInterfaceTables(className), ...entries].join(", ")}]`;
+        this.emitter.addGlobal(`${className}_vtable`, `[${slots.length + 1} x i8*]`, initializer, true, true);
+    }
+
+    /**
+     * Emit the interface tables of a concrete class: an itable per interface it implements
+     * (@Square_HasArea_itable, holding the implementation of each interface method, in order)
+     * and @Square_itables = internal constant [N x { i8*, i8** }] pairing each interface's id with it
+     * Returns the vtable entry pointing to the pairs (null when the class implements no interface)
+     */
+    private emitInterfaceTables(className: string): string {
+        const interfaces = this.getAllInterfaces(className);
+        if (interfaces.length === 0) {
+            return "i8* null";
+        }
+
+        const pairs = interfaces.map(interfaceName => {
+            const methodNames = this.interfaceMethods.get(interfaceName)!;
+            const entries = methodNames.map(methodName =>
+                this.getMethodPointer(className, methodName, `method '${methodName}' of interface ${interfaceName}`));
+            const itableType = `[${methodNames.length} x i8*]`;
+            const itableName = `${className}_${interfaceName}_itable`;
+            const initializer = entries.length > 0 ? `[${entries.join(", ")}]` : "zeroinitializer";
+            this.emitter.addGlobal(itableName, itableType, initializer, true, true);
+            const itablePtr = `getelementptr inbounds (${itableType}, ${itableType}* @${itableName}, i32 0, i32 0)`;
+            return `{ i8*, i8** } { i8* @${interfaceName}_iid, i8** ${itablePtr} }`;
+        });
+
+        const pairsType = `[${pairs.length} x { i8*, i8** }]`;
+        this.emitter.addGlobal(`${className}_itables`, pairsType, `[${pairs.join(", ")}]`, true, true);
+        return `i8* bitcast (${pairsType}* @${className}_itables to i8*)`;
+    }
+
+    /**
+     * Get a concrete class's implementation of a method, as a vtable or itable entry
+     */
+    private getMethodPointer(className: string, methodName: string, description: string): string {
+        const method = this.findMethod(className, methodName)!;
+        if (method.isAbstract) {
+            throw new Error(`Class ${className} must implement ${description}`);
+        }
+        const functionType = TypeMapper.getFunctionPointerType(method.returnType, method.params.map(p => p.type));
+        return `i8* bitcast (${functionType} @${method.mangledName} to i8*)`;
+    }
+
+    /**
+     * Get a class field from a property declaration or a constructor parameter property
+     * Untyped properties (count = 0) take the type of their initializer
+     */
+    private getClassField(member: ts.PropertyDeclaration | ts.ParameterDeclaration, className: string): FieldDeclaration {
+        const fieldName = member.name.getText(this.sourceFile);
+        const tsType = member.type
+            ? member.type.getText(this.sourceFile)
+            : this.typeChecker.typeToString(this.typeChecker.getBaseTypeOfLiteralType(this.typeChecker.getTypeAtLocation(member)));
+        const llvmType = member.type
+            ? this.getFieldType(member.type, className)
+            : TypeMapper.getStorageType(this.getExpressionType(member));
+
+        const isOptional = member.questionToken !== undefined;
+        if (isOptional && !llvmType.endsWith("*")) {
+            throw new Error(`Optional property '${fieldName}' of ${className} must be a pointer type`);
+        }
+
+        return {
+            name: fieldName,
+            tsType,
+            llvmType,
+            isOptional,
+            declaringClass: className,
+            isPrivate: this.hasModifier(member, ts.SyntaxKind.PrivateKeyword),
+            isProtected: this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword),
+            isReadonly: this.hasModifier(member, ts.SyntaxKind.ReadonlyKeyword),
+        };
+    }
+
+    /**
+     * Get the parameters of a class method or constructor; "this" comes first
+     */
+    private getClassMethodParams(
+        parameters: readonly ts.ParameterDeclaration[],
+        className: string
+    ): { name: string; type: string }[] {
+        return [
+            { name: "this", type: `%${className}*` },
+            ...parameters.map(p => ({
+                name: p.name.getText(this.sourceFile),
+                type: p.type ? this.resolveLLVMType(p.type) : "i32",
+            })),
+        ];
+    }
+
+    /**
+     * Check if a declaration has a modifier (static, private, readonly, ...)
+     */
+    private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+        return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(m => m.kind === kind) ?? false);
+    }
+
+    /**
+     * Emit the constructor and methods of a class
+     * The constructor is @Class_constructor(%Class* this, ...); methods are @Class_method
+     */
+    private emitClassMethods(node: ts.ClassDeclaration): void {
+        const className = node.name!.getText(this.sourceFile);
+        const baseClass = this.structRegistry.get(className)!.baseName;
+        const constructor = this.classConstructors.get(className)!;
+        const constructorNode = node.members.find(
+            (m): m is ts.ConstructorDeclaration => ts.isConstructorDeclaration(m) && m.body !== undefined
+        );
+
+        if (baseClass && constructorNode && !constructorNode.body!.statements.some(s => this.isSuperCall(s))) {
+            throw new Error(`Constructor of ${className} must call super(...)`);
+        }
+
+        // A derived class initializes its fields after super(...); an implicit
+        // constructor passes all of its arguments on
+        this.currentClass = { node, name: className, isConstructor: true };
+        this.emitFunctionDefinition(constructor, constructorNode?.parameters ?? [], constructorNode?.body, () => {
+            if (!baseClass) {
+                this.emitFieldInitializers(node);
+            } else if (!constructorNode) {
+                this.emitSuperCall(constructor.params.slice(1).map(p => this.loadVariable(p.name)));
+            }
+        });
+
+        this.currentClass = { node, name: className, isConstructor: false };
+        for (const member of node.members) {
+            if (ts.isMethodDeclaration(member) && member.body) {
+                const methodInfo = this.methodRegistry.get(className)!.get(member.name.getText(this.sourceFile))!;
+                this.emitFunctionDefinition(methodInfo, member.parameters, member.body);
+            }
+        }
+        this.currentClass = undefined;
+    }
+
+    /**
+     * Check if a statement is a base constructor call: super(...);
+     */
+    private isSuperCall(node: ts.Statement): boolean {
+        return ts.isExpressionStatement(node) && ts.isCallExpression(node.expression) &&
+            node.expression.expression.kind === ts.SyntaxKind.SuperKeyword;
+    }
+
+    /**
+     * Call the base constructor on "this", then initialize the fields of the derived class
+     */
+    private emitSuperCall(args: TypedValue[]): void {
+        const baseClass = this.currentClass?.isConstructor
+            ? this.structRegistry.get(this.currentClass.name)!.baseName
+            : undefined;
+        if (!baseClass) {
+            throw new Error("super(...) can only be called in the constructor of a derived class");
+        }
+
+        this.emitConstructorCall(baseClass, this.visitThisKeyword(), args);
+        this.emitFieldInitializers(this.currentClass!.node);
+    }
+
+    /**
+     * Initialize fields at the start of the constructor: parameter properties first,
+     * then property initializers in declaration order (as in JavaScript)
+     */
+    private emitFieldInitializers(node: ts.ClassDeclaration): void {
+        const thisPtr = this.visitThisKeyword();
+        const constructorNode = node.members.find(
+            (m): m is ts.ConstructorDeclaration => ts.isConstructorDeclaration(m) && m.body !== undefined
+        );
+
+        for (const param of constructorNode?.parameters ?? []) {
+            if (ts.isParameterPropertyDeclaration(param, constructorNode!)) {
+                const name = param.name.getText(this.sourceFile);
+                this.storeToAddress(this.getFieldAddress(thisPtr, name), this.loadVariable(name));
+            }
+        }
+
+        for (const member of node.members) {
+            if (!ts.isPropertyDeclaration(member) || !member.initializer) {
+                continue;
+            }
+            const addr = this.getFieldAddress(thisPtr, member.name.getText(this.sourceFile));
+            if (ts.isObjectLiteralExpression(member.initializer) && this.isInlineStructType(addr.type)) {
+                this.emitObjectLiteral(member.initializer, addr.type.slice(1), addr.ptr, false);
+            } else {
+                this.storeToAddress(addr, this.visitInitializer(member.initializer, addr.type, true));
+            }
+        }
+    }
+
+    /**
+     * Check that a private or protected class member may be used here
+     * private members are only accessible inside their class, protected ones also in its subclasses
+     */
+    private checkMemberAccess(
+        kind: string,
+        name: string,
+        member: { declaringClass?: string; isPrivate?: boolean; isProtected?: boolean }
+    ): void {
+        if (!member.declaringClass) {
+            return;
+        }
+
+        const currentClass = this.currentClass?.name;
+        if (member.isPrivate && currentClass !== member.declaringClass) {
+            throw new Error(`${kind} '${name}' is private to class ${member.declaringClass}`);
+        }
+        if (member.isProtected && !(currentClass && this.isSubclassOf(currentClass, member.declaringClass))) {
+            throw new Error(`${kind} '${name}' is protected in class ${member.declaringClass}`);
+        }
+    }
+
+    /**
+     * Check that a class field may be used here (see checkMemberAccess)
+     * readonly fields are only assignable in the constructor of their class
+     */
+    private checkFieldAccess(structType: string, fieldName: string, isWrite: boolean): void {
+        const structName = structType.replace(/^\%/, "").replace(/\*$/, "");
+        const field = this.structRegistry.get(structName)?.fields.find(f => f.name === fieldName);
+        if (!field?.declaringClass) {
+            return;
+        }
+
+        this.checkMemberAccess("Field", fieldName, field);
+        if (isWrite && field.isReadonly &&
+            !(this.currentClass?.isConstructor && this.currentClass.name === field.declaringClass)) {
+            throw new Error(`Cannot assign to readonly field '${fieldName}' of ${field.declaringClass} outside its constructor`);
+        }
+    }
+
+    /**
+     * Process a block statement
+     */
+    private visitBlock(node: ts.Block): void {
+        this.context.pushScope();
+        for (const statement of node.statements) {
+            this.visitStatement(statement);
+        }
+        this.context.popScope();
+    }
+
+    /**
+     * Process a statement
+     */
+    private visitStatement(node: ts.Statement): void {
+        if (ts.isReturnStatement(node)) {
+            this.visitReturnStatement(node);
+        } else if (ts.isVariableStatement(node)) {
+            this.visitVariableStatement(node);
+        } else if (ts.isExpressionStatement(node)) {
+            this.visitExpression(node.expression);
+        } else if (ts.isIfStatement(node)) {
+            this.visitIfStatement(node);
+        } else if (ts.isWhileStatement(node)) {
+            this.visitWhileStatement(node);
+        } else if (ts.isDoStatement(node)) {
+            this.visitDoStatement(node);
+        } else if (ts.isForStatement(node)) {
+            this.visitForStatement(node);
+        } else if (ts.isSwitchStatement(node)) {
+            this.visitSwitchStatement(node);
+        } else if (ts.isBreakStatement(node)) {
+            this.visitBreakStatement(node);
+        } else if (ts.isContinueStatement(node)) {
+            this.visitContinueStatement(node);
+        } else if (ts.isLabeledStatement(node)) {
+            this.visitLabeledStatement(node);
+        } else if (ts.isBlock(node)) {
+            this.visitBlock(node);
+        }
+    }
+
+    /**
+     * Process a labeled statement (outer: for ...)
+     * Loops take the label so "break outer"/"continue outer" can target them;
+     * any other statement can be left with "break label"
+     */
+    private visitLabeledStatement(node: ts.LabeledStatement): void {
+        const label = node.label.getText(this.sourceFile);
+        const statement = node.statement;
+
+        if (ts.isWhileStatement(statement)) {
+            this.visitWhileStatement(statement, label);
+        } else if (ts.isDoStatement(statement)) {
+            this.visitDoStatement(statement, label);
+        } else if (ts.isForStatement(statement)) {
+            this.visitForStatement(statement, label);
+        } else if (ts.isSwitchStatement(statement)) {
+            this.visitSwitchStatement(statement, label);
+        } else {
+            const endLabel = this.context.nextLabel("label.end");
+            this.jumpTargets.push({ kind: "block", label, breakLabel: endLabel });
+            this.visitStatement(statement);
+            this.jumpTargets.pop();
+            this.emitter.emitBranch(endLabel);
+            this.emitter.emitLabel(endLabel);
+        }
+    }
+
+    /**
+     * Process a break statement (break; or break label;)
+     */
+    private visitBreakStatement(node: ts.BreakStatement): void {
+        const label = node.label?.getText(this.sourceFile);
+        const target = this.findJumpTarget(label, false);
+        this.emitter.emitBranch(target.breakLabel);
+        this.startUnreachableBlock();
+    }
+
+    /**
+     * Process a continue statement (continue; or continue label;)
+     */
+    private visitContinueStatement(node: ts.ContinueStatement): void {
+        const label = node.label?.getText(this.sourceFile);
+        const target = this.findJumpTarget(label, true);
+        this.emitter.emitBranch(target.continueLabel!);
+        this.startUnreachableBlock();
+    }
+
+    /**
+     * Find the loop or labeled statement targeted by break/continue
+     */
+    private findJumpTarget(label: string | undefined, isContinue: boolean): JumpTarget {
+        const keyword = isContinue ? "continue" : "break";
+
+        for (let i = this.jumpTargets.length - 1; i >= 0; i--) {
+            const target = this.jumpTargets[i];
+            if (label !== undefined) {
+                if (target.label !== label) continue;
+                if (isContinue && !target.continueLabel) {
+                    throw new Error(`'continue ${label}' must target a loop`);
+                }
+                return target;
+            }
+            if (target.kind !== "block" && (!isContinue || target.continueLabel)) {
+                return target;
+            }
+        }
+
+        if (label !== undefined) {
+            throw new Error(`Unknown label in '${keyword} ${label}'`);
+        }
+        throw new Error(`'${keyword}' used outside of a loop`);
+    }
+
+    /**
+     * Start a new block after a terminator (return/break/continue), so code that
+     * follows it in the source still lands in a well-formed (unreachable) block
+     */
+    private startUnreachableBlock(): void {
+        this.emitter.emitLabel(this.context.nextLabel("unreachable"));
+    }
+
+    /**
+     * Process a variable statement (let x = 5;)
+     */
+    private visitVariableStatement(node: ts.VariableStatement): void {
+        const isConstant = (node.declarationList.flags & ts.NodeFlags.Const) !== 0;
+        for (const decl of node.declarationList.declarations) {
+            this.visitVariableDeclaration(decl, isConstant);
+        }
+    }
+
+    /**
+     * Process a single variable declaration (isConstant for const declarations)
+     */
+    private visitVariableDeclaration(node: ts.VariableDeclaration, isConstant: boolean): void {
+        const name = node.name.getText(this.sourceFile);
+
+        // Inline<Point> locals hold the struct itself in the stack frame
+        const stackStruct = node.type
+            ? this.getInlineStruct(this.typeResolver.parseTypeNode(node.type, this.sourceFile), {}, name)
+            : undefined;
+        if (stackStruct) {
+            this.declareStackStruct(node, stackStruct, isConstant);
+            return;
+        }
+
+        // Evaluate the initializer first so untyped declarations can take its type
+        const declaredType = node.type ? this.resolveLLVMType(node.type) : undefined;
+        const initValue = node.initializer ? this.visitInitializer(node.initializer, declaredType) : undefined;
+
+        // Determine type: explicit annotation, then initializer, then the type checker
+        let llvmType: string;
+        let isUnsigned = false;
+        if (node.type && declaredType) {
+            llvmType = declaredType;
+            isUnsigned = TypeMapper.isUnsigned(node.type.getText(this.sourceFile));
+        } else if (initValue && initValue.type !== "void") {
+            llvmType = initValue.type;
+            isUnsigned = initValue.unsigned ?? false;
+        } else {
+            llvmType = this.getExpressionType(node);
+        }
+
+        // A const with a numeric constant initializer needs no storage: reads use the value
+        if (isConstant && initValue && this.isImmediate(initValue.value) &&
+            (TypeMapper.isInteger(llvmType) || TypeMapper.isFloat(llvmType))) {
+            this.context.declareConstant(name, llvmType, isUnsigned, this.coerceValue(initValue, llvmType, isUnsigned).value);
+            return;
+        }
+
+        // Declare variable in context; a pointer into a stack struct inherits its lifetime
+        const variable = this.context.declareVariable(name, llvmType, isUnsigned, isConstant);
+        variable.stackStruct = node.initializer ? this.getStoredStackStruct(node.initializer, name) : undefined;
+
+        // Emit alloca for stack allocation
+        this.emitter.emitAlloca(variable.llvmName, llvmType);
+
+        // If there's an initializer, store the value (e.g., malloc's pointer is bitcast to the struct type)
+        if (initValue) {
+            const value = this.coerceValue(initValue, llvmType, isUnsigned);
+            this.emitter.emitStore(llvmType, value.value, variable.llvmName);
+        }
+    }
+
+    /**
+     * Declare a struct local stored by value in the stack frame (let p: Inline<Point> = { ... })
+     * Reads of the variable yield the address of the struct, like any struct value
+     */
+    private declareStackStruct(node: ts.VariableDeclaration, structName: string, isConstant: boolean): void {
+        const name = node.name.getText(this.sourceFile);
+        const variable = this.context.declareVariable(name, `%${structName}`, false, isConstant);
+        variable.stackStruct = name;
+        this.emitter.emitAlloca(variable.llvmName, `%${structName}`);
+
+        if (!node.initializer) {
+            return;
+        }
+
+        // An object literal initializes the fields in place, and so does a constructor
+        // (new Vec2(...)); a struct pointer is copied
+        if (ts.isObjectLiteralExpression(node.initializer)) {
+            this.emitObjectLiteral(node.initializer, structName, variable.llvmName, true);
+        } else if (ts.isNewExpression(node.initializer) && node.initializer.expression.getText(this.sourceFile) === structName &&
+            this.classConstructors.has(structName)) {
+            this.constructObject(node.initializer, structName, variable.llvmName);
+        } else {
+            const addr: StorageAddress = { ptr: variable.llvmName, type: `%${structName}` };
+            this.storeToAddress(addr, this.visitExpression(node.initializer));
+        }
+    }
+
+    /**
+     * Get the stack struct an expression points into, if any (escape checking)
+     * Inline<T> locals, their inline fields and pointer variables copied from them
+     * all refer to memory in the function's stack frame
+     */
+    private getStackStruct(node: ts.Expression): string | undefined {
+        if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+            return this.getStackStruct(node.expression);
+        }
+        if (ts.isConditionalExpression(node)) {
+            return this.getStackStruct(node.whenTrue) ?? this.getStackStruct(node.whenFalse);
+        }
+        if (ts.isIdentifier(node)) {
+            return this.context.lookupVariable(node.getText(this.sourceFile))?.stackStruct;
+        }
+        // An inline field's value is an address inside its parent
+        if (ts.isPropertyAccessExpression(node) && this.isInlineStructType(this.getStoredType(node) ?? "")) {
+            return this.getStackStruct(node.expression);
+        }
+        return undefined;
+    }
+
+    /**
+     * Get the stack struct a local variable refers to after value is stored in it
+     * An arrow function with captures stored in a local keeps its environment in the stack frame
+     */
+    private getStoredStackStruct(value: ts.Expression, variableName: string): string | undefined {
+        if ((ts.isArrowFunction(value) || ts.isFunctionExpression(value)) && this.getCaptures(value).length > 0) {
+            return variableName;
+        }
+        return this.getStackStruct(value);
+    }
+
+    /**
+     * Get the stored LLVM type of a variable or (nested) field access without emitting IR
+     */
+    private getStoredType(node: ts.Expression): string | undefined {
+        if (ts.isParenthesizedExpression(node)) {
+            return this.getStoredType(node.expression);
+        }
+        if (ts.isIdentifier(node)) {
+            return this.context.lookupVariable(node.getText(this.sourceFile))?.llvmType;
+        }
+        if (node.kind === ts.SyntaxKind.ThisKeyword) {
+            return this.context.lookupVariable("this")?.llvmType;
+        }
+        if (ts.isElementAccessExpression(node)) {
+            return this.getStoredType(node.expression)?.replace(/\*$/, "");
+        }
+        if (ts.isPropertyAccessExpression(node)) {
+            const structType = this.getStoredType(node.expression)?.replace(/^\%/, "").replace(/\*$/, "");
+            const structDef = structType ? this.structRegistry.get(structType) : undefined;
+            return structDef?.fields.find(f => f.name === node.name.getText(this.sourceFile))?.type;
+        }
+        return undefined;
+    }
+
+    /**
+     * Check that storing a value in an assignment target cannot leave a dangling stack pointer
+     * Pointers into stack structs may only be kept in locals and in fields of stack structs
+     */
+    private checkStackEscape(target: ts.Expression, value: ts.Expression): void {
+        // A local may hold a stack pointer; from then on it is checked like the stack struct.
+        // An assignment that always runs replaces what the local pointed to; one in a branch
+        // or loop may not run, so the local keeps its earlier stack struct too
+        if (ts.isIdentifier(target)) {
+            const variable = this.context.lookupVariable(target.getText(this.sourceFile));
+            if (variable && !variable.llvmName.startsWith("@")) {
+                const stored = this.getStoredStackStruct(value, variable.name);
+                variable.stackStruct = this.isUnconditionalAssignment(target) ? stored : stored ?? variable.stackStruct;
+                return;
+            }
+        }
+
+        const stackStruct = this.getStackStruct(value);
+        if (!stackStruct || (ts.isPropertyAccessExpression(target) && this.getStackStruct(target.expression))) {
+            return;
+        }
+
+        throw new Error(
+            `Cannot store a pointer to stack struct '${stackStruct}' in '${target.getText(this.sourceFile)}'; ` +
+            `it does not outlive the function`
+        );
+    }
+
+    /**
+     * Check if an assignment to a local (p = q;) is a statement directly in the block declaring it,
+     * so it runs whenever the local is in use
+     */
+    private isUnconditionalAssignment(target: ts.Identifier): boolean {
+        const statement = target.parent.parent;
+        if (!ts.isExpressionStatement(statement) || !ts.isBlock(statement.parent)) {
+            return false;
+        }
+
+        const name = target.getText(this.sourceFile);
+        const block = statement.parent;
+        const declaresLocal = block.statements.some(s => ts.isVariableStatement(s) &&
+            s.declarationList.declarations.some(d => d.name.getText(this.sourceFile) === name));
+        const declaresParameter = ts.isFunctionLike(block.parent) &&
+            block.parent.parameters.some(p => p.name.getText(this.sourceFile) === name);
+        return declaresLocal || declaresParameter;
+    }
+
+    /**
+     * Process a return statement
+     */
+    private visitReturnStatement(node: ts.ReturnStatement): void {
+        if (node.expression) {
+            const stackStruct = this.getStackStruct(node.expression);
+            if (stackStruct) {
+                throw new Error(`Cannot return a pointer to stack struct '${stackStruct}'; it does not outlive the function`);
+            }
+            const value = this.coerceValue(this.visitInitializer(node.expression, this.currentReturnType, true), this.currentReturnType);
+            this.emitter.emitReturn(value.type, value.value);
+        } else {
+            this.emitter.emitReturn("void", "");
+        }
+        this.startUnreachableBlock();
+    }
+
+    /**
+     * Process an if statement
+     * 
+     * Generates:
+     *   %cond = <condition>
+     *   br i1 %cond, label %then, label %else
+     * then:
+     *   <then body>
+     *   br label %endif
+     * else:
+     *   <else body>
+     *   br label %endif
+     * endif:
+     */
+    private visitIfStatement(node: ts.IfStatement): void {
+        const thenLabel = this.context.nextLabel("if.then");
+        const elseLabel = this.context.nextLabel("if.else");
+        const endLabel = this.context.nextLabel("if.end");
+
+        // Evaluate condition
+        const condition = this.visitExpression(node.expression);
+
+        // Convert to i1 if needed (compare with 0)
+        const condReg = this.ensureBooleanCondition(condition);
+
+        if (node.elseStatement) {
+            // Branch based on condition
+            this.emitter.emitConditionalBranch(condReg, thenLabel, elseLabel);
+
+            // Then block
+            this.emitter.emitLabel(thenLabel);
+            this.visitStatement(node.thenStatement);
+            this.emitter.emitBranch(endLabel);
+
+            // Else block
+            this.emitter.emitLabel(elseLabel);
+            this.visitStatement(node.elseStatement);
+            this.emitter.emitBranch(endLabel);
+        } else {
+            // No else block
+            this.emitter.emitConditionalBranch(condReg, thenLabel, endLabel);
+
+            // Then block
+            this.emitter.emitLabel(thenLabel);
+            this.visitStatement(node.thenStatement);
+            this.emitter.emitBranch(endLabel);
+        }
+
+        // End label (continuation)
+        this.emitter.emitLabel(endLabel);
     }
 
     /**
@@ -489,108 +1666,673 @@ export class ASTWalker {
      *   <body>
      *   br label %while.cond
      * while.end:
+     *
+     * break jumps to while.end, continue to while.cond
+     */
+    private visitWhileStatement(node: ts.WhileStatement, label?: string): void {
+        const condLabel = this.context.nextLabel("while.cond");
+        const bodyLabel = this.context.nextLabel("while.body");
+        const endLabel = this.context.nextLabel("while.end");
+
+        // Jump to condition check
+        this.emitter.emitBranch(condLabel);
+
+        // Condition block
+        this.emitter.emitLabel(condLabel);
+        const condition = this.visitExpression(node.expression);
+        const condReg = this.ensureBooleanCondition(condition);
+        this.emitter.emitConditionalBranch(condReg, bodyLabel, endLabel);
+
+        // Body block
+        this.emitter.emitLabel(bodyLabel);
+        this.jumpTargets.push({ kind: "loop", label, breakLabel: endLabel, continueLabel: condLabel });
+        this.visitStatement(node.statement);
+        this.jumpTargets.pop();
+        this.emitter.emitBranch(condLabel);
+
+        // End label
+        this.emitter.emitLabel(endLabel);
+    }
+
+    /**
+     * Process a do-while statement (body runs before the first condition check)
+     *
+     * Generates:
+     *   br label %do.body
+     * do.body:
+     *   <body>
+     *   br label %do.cond
+     * do.cond:
+     *   %cond = <condition>
+     *   br i1 %cond, label %do.body, label %do.end
+     * do.end:
+     *
+     * break jumps to do.end, continue to do.cond
+     */
+    private visitDoStatement(node: ts.DoStatement, label?: string): void {
+        const bodyLabel = this.context.nextLabel("do.body");
+        const condLabel = this.context.nextLabel("do.cond");
+        const endLabel = this.context.nextLabel("do.end");
+
+        // Jump into the body
+        this.emitter.emitBranch(bodyLabel);
+
+        // Body block
+        this.emitter.emitLabel(bodyLabel);
+        this.jumpTargets.push({ kind: "loop", label, breakLabel: endLabel, continueLabel: condLabel });
+        this.visitStatement(node.statement);
+        this.jumpTargets.pop();
+        this.emitter.emitBranch(condLabel);
+
+        // Condition block
+        this.emitter.emitLabel(condLabel);
+        const condition = this.visitExpression(node.expression);
+        const condReg = this.ensureBooleanCondition(condition);
+        this.emitter.emitConditionalBranch(condReg, bodyLabel, endLabel);
+
+        // End label
+        this.emitter.emitLabel(endLabel);
+    }
+
+    /**
+     * Process a for statement (lower to while)
+     * 
+     * for (init; cond; update) { body }
+     * becomes:
+     *   init
+     *   while (cond) { body; update; }
+     *
+     * The update gets its own for.inc block so continue still runs it
+     */
+    private visitForStatement(node: ts.ForStatement, label?: string): void {
+        // Process initializer
+        if (node.initializer) {
+            if (ts.isVariableDeclarationList(node.initializer)) {
+                const isConstant = (node.initializer.flags & ts.NodeFlags.Const) !== 0;
+                for (const decl of node.initializer.declarations) {
+                    this.visitVariableDeclaration(decl, isConstant);
+                }
+            } else {
+                this.visitExpression(node.initializer);
+            }
+        }
+
+        const condLabel = this.context.nextLabel("for.cond");
+        const bodyLabel = this.context.nextLabel("for.body");
+        const incLabel = this.context.nextLabel("for.inc");
+        const endLabel = this.context.nextLabel("for.end");
+
+        // Jump to condition check
+        this.emitter.emitBranch(condLabel);
+
+        // Condition block
+        this.emitter.emitLabel(condLabel);
+        if (node.condition) {
+            const condition = this.visitExpression(node.condition);
+            const condReg = this.ensureBooleanCondition(condition);
+            this.emitter.emitConditionalBranch(condReg, bodyLabel, endLabel);
+        } else {
+            // No condition = infinite loop (true)
+            this.emitter.emitBranch(bodyLabel);
+        }
+
+        // Body block
+        this.emitter.emitLabel(bodyLabel);
+        this.jumpTargets.push({ kind: "loop", label, breakLabel: endLabel, continueLabel: incLabel });
+        this.visitStatement(node.statement);
+        this.jumpTargets.pop();
+        this.emitter.emitBranch(incLabel);
+
+        // Incrementer
+        this.emitter.emitLabel(incLabel);
+        if (node.incrementor) {
+            this.visitExpression(node.incrementor);
+        }
+        this.emitter.emitBranch(condLabel);
+
+        // End label
+        this.emitter.emitLabel(endLabel);
+    }
+
+    /**
+     * Process a switch statement (lowered to an LLVM switch / jump table)
+     *
+     * Generates:
+     *   %v = <discriminant>
+     *   switch i32 %v, label %sw.default [ i32 1, label %sw.case0 ... ]
+     * sw.case0:
+     *   <statements>
+     *   br label %sw.case1     ; fallthrough to the next clause
+     * ...
+     * sw.end:
+     *
+     * break jumps to sw.end; without a default clause the switch defaults to sw.end
+     */
+    private visitSwitchStatement(node: ts.SwitchStatement, label?: string): void {
+        const discriminant = this.visitExpression(node.expression);
+        if (!TypeMapper.isInteger(discriminant.type)) {
+            throw new Error(`switch requires an integer or enum value, got ${discriminant.type}`);
+        }
+
+        const clauses = node.caseBlock.clauses;
+        const clauseLabels = clauses.map(clause =>
+            this.context.nextLabel(ts.isDefaultClause(clause) ? "sw.default" : "sw.case")
+        );
+        const endLabel = this.context.nextLabel("sw.end");
+
+        // Case labels must be compile-time constants
+        let defaultLabel = endLabel;
+        const cases: string[] = [];
+        const seen = new Set<string>();
+        clauses.forEach((clause, i) => {
+            if (ts.isDefaultClause(clause)) {
+                defaultLabel = clauseLabels[i];
+                return;
+            }
+
+            const caseValue = this.evaluateConstant(clause.expression);
+            if (!caseValue || !TypeMapper.isInteger(caseValue.type)) {
+                throw new Error(`case label must be a constant integer: ${clause.expression.getText(this.sourceFile)}`);
+            }
+
+            const value = this.coerceValue(caseValue, discriminant.type).value;
+            if (seen.has(value)) {
+                throw new Error(`Duplicate case label: ${clause.expression.getText(this.sourceFile)}`);
+            }
+            seen.add(value);
+            cases.push(`${discriminant.type} ${value}, label %${clauseLabels[i]}`);
+        });
+
+        this.emitter.emitLine(
+            `switch ${discriminant.type} ${discriminant.value}, label %${defaultLabel} [ ${cases.join(" ")} ]`
+        );
+
+        // Clause bodies in source order; falling off the end of one enters the next
+        this.context.pushScope();
+        this.jumpTargets.push({ kind: "switch", label, breakLabel: endLabel });
+        clauses.forEach((clause, i) => {
+            this.emitter.emitLabel(clauseLabels[i]);
+            for (const statement of clause.statements) {
+                this.visitStatement(statement);
+            }
+            this.emitter.emitBranch(i + 1 < clauses.length ? clauseLabels[i + 1] : endLabel);
+        });
+        this.jumpTargets.pop();
+        this.context.popScope();
+
+        this.emitter.emitLabel(endLabel);
+    }
+
+    /**
+     * Ensure a value is an i1 boolean (for branch conditions)
+     */
+    private ensureBooleanCondition(value: TypedValue): string {
+        // Comparison results are already i1
+        if (value.type === "i1") {
+            return value.value;
+        }
+
+        // Otherwise compare against the zero value of the operand's type
+        const resultReg = this.context.nextTemp();
+        if (TypeMapper.isFloat(value.type)) {
+            this.emitter.emitLine(`${resultReg} = fcmp une ${value.type} ${value.value}, 0.0`);
+        } else if (value.type.endsWith("*")) {
+            this.emitter.emitLine(`${resultReg} = icmp ne ${value.type} ${value.value}, null`);
+        } else {
+            this.emitter.emitLine(`${resultReg} = icmp ne ${value.type} ${value.value}, 0`);
+        }
+        return resultReg;
+    }
+
+    /**
+     * Check if an LLVM value is an immediate constant (not a register or global)
+     */
+    private isImmediate(value: string): boolean {
+        return !value.startsWith("%") && !value.startsWith("@");
+    }
+
+    /**
+     * Get the numeric value of an immediate constant (true/false count as 1/0)
+     */
+    private getImmediateNumber(value: TypedValue): number {
+        if (value.value === "true" || value.value === "false") {
+            return value.value === "true" ? 1 : 0;
+        }
+        return TypeMapper.isFloat(value.type) ? TypeMapper.parseFloatConstant(value.value) : Number(value.value);
+    }
+
+    /**
+     * Get the exact value of an integer immediate (BigInt keeps i64 constants exact)
+     */
+    private getImmediateBigInt(value: TypedValue): bigint {
+        if (value.value === "true" || value.value === "false") {
+            return value.value === "true" ? 1n : 0n;
+        }
+        return BigInt(value.value);
+    }
+
+    /**
+     * Implicitly convert a typed value to the target LLVM type, emitting a cast if needed
+     * Only conversions that cannot lose data are allowed; others need an explicit "as"
+     * Integer constants are range-checked by the target's signedness, where it is known
+     */
+    private coerceValue(value: TypedValue, targetType: string, targetUnsigned?: boolean): TypedValue {
+        if (value.type === targetType) {
+            // A constant may already have the target type and still not fit (u32 4000000000 in an i32)
+            if (TypeMapper.isInteger(targetType) && targetType !== "i1" && this.isImmediate(value.value)) {
+                this.checkIntegerConstant(this.getImmediateNumber(value), targetType, targetUnsigned);
+            }
+            return value;
+        }
+
+        // The null pointer constant converts to any pointer type
+        if (value.value === "null" && targetType.endsWith("*")) {
+            return { value: "null", type: targetType };
+        }
+
+        // A plain function can be used where a closure is expected (but not the other way around)
+        if (TypeMapper.isClosure(targetType) && TypeMapper.isFunctionPointer(value.type)) {
+            return this.wrapFunctionPointer(value, targetType);
+        }
+        if (TypeMapper.isClosure(value.type) || TypeMapper.isClosure(targetType)) {
+            throw new Error(`Cannot convert ${value.type} to ${targetType}`);
+        }
+
+        // Immediates can be re-typed (and re-formatted for floating point) in place
+        if (this.isImmediate(value.value)) {
+            const constant = this.getImmediateNumber(value);
+
+            if (TypeMapper.isInteger(targetType)) {
+                this.checkIntegerConstant(constant, targetType, targetUnsigned);
+                return { value: constant.toString(), type: targetType };
+            }
+            if (TypeMapper.isFloat(targetType)) {
+                return { value: TypeMapper.formatFloatConstant(constant, targetType), type: targetType };
+            }
+            // 0 compared with or assigned to a pointer is the null pointer (e.g., p != 0)
+            if (constant === 0 && targetType.endsWith("*")) {
+                return { value: "null", type: targetType };
+            }
+        }
+
+        // Functions with different signatures would be called with the wrong arguments
+        if (TypeMapper.isFunctionPointer(value.type) && TypeMapper.isFunctionPointer(targetType)) {
+            throw new Error(`Type mismatch: cannot convert function ${value.type} to ${targetType}; use an explicit 'as' cast`);
+        }
+
+        // Pointer to pointer (e.g., malloc's result assigned to a struct pointer)
+        if (value.type.endsWith("*") && targetType.endsWith("*")) {
+            this.checkImplements(value.type, targetType);
+            return this.castValue(value, targetType);
+        }
+
+        if (!TypeMapper.isLosslessConversion(value.type, targetType)) {
+            throw new Error(
+                `Implicit conversion from ${value.type} to ${targetType} may lose data; use an explicit 'as' cast`
+            );
+        }
+
+        return this.castValue(value, targetType);
+    }
+
+    /**
+     * Check that an integer constant fits the integer type it is converted to
      */
-    private visitWhileStatement(node: ts.WhileStatement): void {
-        const condLabel = this.context.nextLabel("while.cond");
-        const bodyLabel = this.context.nextLabel("while.body");
-        const endLabel = this.context.nextLabel("while.end");
+    private checkIntegerConstant(constant: number, targetType: string, targetUnsigned?: boolean): void {
+        if (!TypeMapper.fitsInteger(constant, targetType, targetUnsigned)) {
+            const typeName = targetType === "i1" ? "boolean" : targetUnsigned === undefined
+                ? targetType
+                : `${targetUnsigned ? "u" : "i"}${TypeMapper.getIntegerBits(targetType)}`;
+            throw new Error(`Constant ${constant} does not fit in ${typeName}`);
+        }
+    }
 
-        // Jump to condition check
-        this.emitter.emitBranch(condLabel);
+    /**
+     * Check that a struct pointer converted to an interface declaring methods is an instance of a
+     * class implementing it (other pointers, such as malloc's result, convert freely)
+     */
+    private checkImplements(fromType: string, toType: string): void {
+        const interfaceName = toType.match(/^%([\w.]+)\*$/)?.[1];
+        const typeName = fromType.match(/^%([\w.]+)\*$/)?.[1];
+        if (!interfaceName || !typeName || !this.interfaceMethods.has(interfaceName) || !this.structRegistry.get(typeName)) {
+            return;
+        }
+        if (!this.getAllInterfaces(typeName).includes(interfaceName)) {
+            throw new Error(`${typeName} does not implement interface ${interfaceName}`);
+        }
+    }
 
-        // Condition block
-        this.emitter.emitLabel(condLabel);
-        const condition = this.visitExpression(node.expression);
-        const condReg = this.ensureBooleanCondition(condition);
-        this.emitter.emitConditionalBranch(condReg, bodyLabel, endLabel);
+    /**
+     * Convert a typed value to the target LLVM type (explicit "as" cast)
+     * Lowers to sext/trunc/sitofp/fptosi/fpext/fptrunc/bitcast/ptrtoint/inttoptr
+     */
+    private castValue(value: TypedValue, targetType: string, targetUnsigned: boolean = false): TypedValue {
+        if (value.type === targetType) {
+            return { value: value.value, type: targetType, unsigned: targetUnsigned };
+        }
 
-        // Body block
-        this.emitter.emitLabel(bodyLabel);
-        this.visitStatement(node.statement);
-        this.emitter.emitBranch(condLabel);
+        const resultReg = this.context.nextTemp();
+        const op = TypeMapper.getCastOp(value.type, targetType, value.unsigned, targetUnsigned);
+        this.emitter.emitCast(resultReg, op, value.type, value.value, targetType);
+        return { value: resultReg, type: targetType, unsigned: targetUnsigned };
+    }
 
-        // End label
-        this.emitter.emitLabel(endLabel);
+    /**
+     * Bring both operands of a binary operator to a common LLVM type
+     */
+    private unifyOperands(left: TypedValue, right: TypedValue): [TypedValue, TypedValue] {
+        left = this.promoteInteger(left);
+        right = this.promoteInteger(right);
+        const type = this.getCommonType(left, right);
+        const unsigned = this.isUnsignedOperation(left, right, type);
+        return [
+            { ...this.coerceValue(left, type), unsigned },
+            { ...this.coerceValue(right, type), unsigned },
+        ];
     }
 
     /**
-     * Process a for statement (lower to while)
-     * 
-     * for (init; cond; update) { body }
-     * becomes:
-     *   init
-     *   while (cond) { body; update; }
+     * Promote an integer narrower than i32 to i32, as C does before arithmetic and comparisons
+     * (u8 200 + u8 100 is 300); i32 holds every value of the narrower types, so the result is signed
      */
-    private visitForStatement(node: ts.ForStatement): void {
-        // Process initializer
-        if (node.initializer) {
-            if (ts.isVariableDeclarationList(node.initializer)) {
-                for (const decl of node.initializer.declarations) {
-                    this.visitVariableDeclaration(decl);
+    private promoteInteger(value: TypedValue): TypedValue {
+        if (!TypeMapper.isInteger(value.type) || value.type === "i1" || TypeMapper.getIntegerBits(value.type) >= 32) {
+            return value;
+        }
+        if (this.isImmediate(value.value)) {
+            return { value: value.value, type: "i32" };
+        }
+        return this.castValue(value, "i32");
+    }
+
+    /**
+     * Check if a binary operation in the common type is unsigned
+     * An immediate adopts the other operand's signedness; otherwise, as in C,
+     * the operation is unsigned if an unsigned operand is at least as wide as the common type
+     */
+    private isUnsignedOperation(left: TypedValue, right: TypedValue, type: string): boolean {
+        if (!TypeMapper.isInteger(type)) {
+            return false;
+        }
+        const bothConstant = this.isImmediate(left.value) && this.isImmediate(right.value);
+        return [left, right].some(operand =>
+            operand.unsigned === true &&
+            (bothConstant || !this.isImmediate(operand.value)) &&
+            TypeMapper.getIntegerBits(operand.type) >= TypeMapper.getIntegerBits(type)
+        );
+    }
+
+    /**
+     * Get the type both operands of a binary operator are converted to
+     */
+    private getCommonType(left: TypedValue, right: TypedValue): string {
+        if (left.type === right.type) {
+            return left.type;
+        }
+
+        // Mixing integer and floating point promotes to the floating point type
+        const leftFloat = TypeMapper.isFloat(left.type);
+        const rightFloat = TypeMapper.isFloat(right.type);
+        if (leftFloat !== rightFloat) {
+            return leftFloat ? left.type : right.type;
+        }
+
+        // An immediate takes the type of a non-constant operand if it fits (e.g., x + 1, f * 0.5)
+        const leftImmediate = this.isImmediate(left.value);
+        const rightImmediate = this.isImmediate(right.value);
+        if (leftImmediate && !rightImmediate && this.immediateFits(left, right.type)) {
+            return right.type;
+        }
+        if (rightImmediate && !leftImmediate && this.immediateFits(right, left.type)) {
+            return left.type;
+        }
+
+        // Otherwise the wider type wins
+        return TypeMapper.sizeOf(left.type) >= TypeMapper.sizeOf(right.type) ? left.type : right.type;
+    }
+
+    /**
+     * Check if an immediate can be re-typed to another type of the same kind
+     */
+    private immediateFits(value: TypedValue, targetType: string): boolean {
+        if (targetType.endsWith("*")) {
+            return TypeMapper.isInteger(value.type) && this.getImmediateNumber(value) === 0;
+        }
+        if (TypeMapper.isInteger(value.type) && TypeMapper.isInteger(targetType)) {
+            return TypeMapper.fitsInteger(this.getImmediateNumber(value), targetType);
+        }
+        return TypeMapper.isFloat(value.type) && TypeMapper.isFloat(targetType);
+    }
+
+    /**
+     * Evaluate an expression at compile time without emitting any IR
+     * Folds literals, arithmetic, comparisons, casts, sizeof<T>() and const bindings;
+     * returns undefined when the expression is not a compile-time constant
+     */
+    private evaluateConstant(node: ts.Expression): TypedValue | undefined {
+        if (ts.isNumericLiteral(node)) {
+            return this.visitNumericLiteral(node);
+        }
+
+        if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+            return { value: node.kind === ts.SyntaxKind.TrueKeyword ? "true" : "false", type: "i1" };
+        }
+
+        if (ts.isParenthesizedExpression(node)) {
+            return this.evaluateConstant(node.expression);
+        }
+
+        if (ts.isIdentifier(node)) {
+            const variable = this.context.lookupVariable(node.getText(this.sourceFile));
+            if (variable?.constantValue === undefined) {
+                return undefined;
+            }
+            return { value: variable.constantValue, type: variable.llvmType, unsigned: variable.isUnsigned };
+        }
+
+        if (ts.isCallExpression(node) && this.isLayoutIntrinsic(node)) {
+            return this.visitLayoutIntrinsic(node);
+        }
+
+        // Enum members: Color.Red
+        if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+            const enumName = node.expression.getText(this.sourceFile);
+            if (this.enumRegistry.isEnum(enumName) && !this.context.lookupVariable(enumName)) {
+                const memberName = node.name.getText(this.sourceFile);
+                const member = this.enumRegistry.getMember(enumName, memberName);
+                if (!member) {
+                    throw new Error(`Unknown member '${memberName}' of enum '${enumName}'`);
                 }
-            } else {
-                this.visitExpression(node.initializer);
+                return { value: member.value.toString(), type: "i32" };
             }
         }
 
-        const condLabel = this.context.nextLabel("for.cond");
-        const bodyLabel = this.context.nextLabel("for.body");
-        const endLabel = this.context.nextLabel("for.end");
+        if (ts.isPrefixUnaryExpression(node)) {
+            return this.evaluateConstantUnary(node);
+        }
 
-        // Jump to condition check
-        this.emitter.emitBranch(condLabel);
+        if (ts.isBinaryExpression(node)) {
+            return this.evaluateConstantBinary(node);
+        }
 
-        // Condition block
-        this.emitter.emitLabel(condLabel);
-        if (node.condition) {
-            const condition = this.visitExpression(node.condition);
-            const condReg = this.ensureBooleanCondition(condition);
-            this.emitter.emitConditionalBranch(condReg, bodyLabel, endLabel);
-        } else {
-            // No condition = infinite loop (true)
-            this.emitter.emitBranch(bodyLabel);
+        if (ts.isAsExpression(node)) {
+            const value = this.evaluateConstant(node.expression);
+            if (!value) {
+                return undefined;
+            }
+            const targetUnsigned = TypeMapper.isUnsigned(node.type.getText(this.sourceFile));
+            return this.foldCast(value, this.resolveLLVMType(node.type), targetUnsigned);
         }
 
-        // Body block
-        this.emitter.emitLabel(bodyLabel);
-        this.visitStatement(node.statement);
+        // A constant condition selects a branch; the other one is never evaluated
+        if (ts.isConditionalExpression(node)) {
+            const condition = this.evaluateConstant(node.condition);
+            if (!condition) {
+                return undefined;
+            }
+            return this.evaluateConstant(this.getImmediateNumber(condition) !== 0 ? node.whenTrue : node.whenFalse);
+        }
 
-        // Incrementer
-        if (node.incrementor) {
-            this.visitExpression(node.incrementor);
+        return undefined;
+    }
+
+    /**
+     * Fold a prefix operator (-, !, ~) applied to a constant
+     */
+    private evaluateConstantUnary(node: ts.PrefixUnaryExpression): TypedValue | undefined {
+        const operand = this.evaluateConstant(node.operand);
+        if (!operand) {
+            return undefined;
         }
-        this.emitter.emitBranch(condLabel);
 
-        // End label
-        this.emitter.emitLabel(endLabel);
+        switch (node.operator) {
+            case ts.SyntaxKind.MinusToken:
+                if (TypeMapper.isFloat(operand.type)) {
+                    const negated = -this.getImmediateNumber(operand);
+                    return { value: TypeMapper.formatFloatConstant(negated, operand.type), type: operand.type };
+                }
+                this.checkArithmeticOperands("-", operand);
+                return this.foldArithmetic("-", { ...operand, value: "0" }, operand);
+            case ts.SyntaxKind.ExclamationToken:
+                return { value: this.getImmediateNumber(operand) === 0 ? "true" : "false", type: "i1" };
+            case ts.SyntaxKind.TildeToken:
+                if (!TypeMapper.isInteger(operand.type)) {
+                    throw new Error(`Operator '~' requires an integer operand, got ${operand.type}`);
+                }
+                this.checkArithmeticOperands("~", operand);
+                return this.foldArithmetic("^", operand, { ...operand, value: "-1" });
+            default:
+                return undefined;
+        }
     }
 
     /**
-     * Ensure a value is an i1 boolean (for branch conditions)
+     * Fold a binary operator whose operands are both constants
      */
-    private ensureBooleanCondition(value: string): string {
-        // If the value is already a comparison result (i1), use it directly
-        // Otherwise, compare with 0 to get a boolean
-        // For simplicity, we'll assume comparisons return i1 and other values need comparison
+    private evaluateConstantBinary(node: ts.BinaryExpression): TypedValue | undefined {
+        const operatorToken = node.operatorToken.kind;
 
-        // Check if it's a numeric literal
-        if (/^-?\d+$/.test(value)) {
-            const resultReg = this.context.nextTemp();
-            this.emitter.emitLine(`${resultReg} = icmp ne i32 ${value}, 0`);
-            return resultReg;
+        // Assignments always have an effect
+        if (operatorToken === ts.SyntaxKind.EqualsToken || this.getCompoundOperatorString(operatorToken)) {
+            return undefined;
         }
 
-        // For register values, assume they might need conversion
-        // In a more complete implementation, we'd track types
-        return value;
+        const left = this.evaluateConstant(node.left);
+        if (!left) {
+            return undefined;
+        }
+
+        // && and || short-circuit: a deciding left operand is the result, the right one is never evaluated
+        if (operatorToken === ts.SyntaxKind.AmpersandAmpersandToken || operatorToken === ts.SyntaxKind.BarBarToken) {
+            const l = this.getImmediateNumber(left) !== 0;
+            if (l !== (operatorToken === ts.SyntaxKind.AmpersandAmpersandToken)) {
+                return { value: l ? "true" : "false", type: "i1" };  // false && x, true || x
+            }
+            const right = this.evaluateConstant(node.right);
+            return right && { value: this.getImmediateNumber(right) !== 0 ? "true" : "false", type: "i1" };
+        }
+
+        const right = this.evaluateConstant(node.right);
+        if (!right) {
+            return undefined;
+        }
+
+        const op = this.getOperatorString(operatorToken);
+        if (!this.isComparisonOperator(operatorToken)) {
+            this.checkArithmeticOperands(op, left, right);
+        }
+        const [l, r] = this.unifyOperands(left, right);
+
+        if (this.isComparisonOperator(operatorToken)) {
+            return this.foldComparison(op, l, r);
+        }
+
+        return this.foldArithmetic(op, l, r);
+    }
+
+    /**
+     * Compare two constants of the same type
+     */
+    private foldComparison(op: string, l: TypedValue, r: TypedValue): TypedValue {
+        let a: number | bigint;
+        let b: number | bigint;
+        if (TypeMapper.isFloat(l.type)) {
+            a = this.getImmediateNumber(l);
+            b = this.getImmediateNumber(r);
+        } else {
+            // Compare integers as the instruction would see them (signed or unsigned)
+            const bits = TypeMapper.getIntegerBits(l.type);
+            const unsigned = this.isUnsignedOperation(l, r, l.type);
+            const wrap = (v: bigint) => unsigned ? BigInt.asUintN(bits, v) : BigInt.asIntN(bits, v);
+            a = wrap(this.getImmediateBigInt(l));
+            b = wrap(this.getImmediateBigInt(r));
+        }
+
+        let result: boolean;
+        switch (op) {
+            case "<": result = a < b; break;
+            case ">": result = a > b; break;
+            case "<=": result = a <= b; break;
+            case ">=": result = a >= b; break;
+            case "==":
+            case "===": result = a === b; break;
+            case "!=":
+            case "!==": result = a !== b; break;
+            default:
+                throw new Error(`Unsupported comparison operator: ${op}`);
+        }
+        return { value: result ? "true" : "false", type: "i1" };
+    }
+
+    /**
+     * Convert a constant to another numeric type (e.g., 300 as u8 -> 44, 2.5 as i32 -> 2)
+     * Returns undefined for conversions that must happen at run time
+     */
+    private foldCast(value: TypedValue, targetType: string, targetUnsigned: boolean): TypedValue | undefined {
+        const constant = this.getImmediateNumber(value);
+
+        if (targetType === "i1") {
+            return { value: constant !== 0 ? "true" : "false", type: "i1" };
+        }
+        if (TypeMapper.isFloat(targetType)) {
+            return { value: TypeMapper.formatFloatConstant(constant, targetType), type: targetType };
+        }
+        if (!TypeMapper.isInteger(targetType) || !(TypeMapper.isInteger(value.type) || TypeMapper.isFloat(value.type))) {
+            return undefined;
+        }
+
+        if (TypeMapper.isFloat(value.type)) {
+            // Out-of-range float to integer conversions have no defined result
+            const truncated = Math.trunc(constant);
+            return TypeMapper.fitsInteger(truncated, targetType)
+                ? { value: truncated.toString(), type: targetType, unsigned: targetUnsigned }
+                : undefined;
+        }
+
+        // Integers wrap around to the target width, as trunc/sext/zext would
+        const bits = TypeMapper.getIntegerBits(targetType);
+        const source = this.getImmediateBigInt(value);
+        const converted = targetUnsigned ? BigInt.asUintN(bits, source) : BigInt.asIntN(bits, source);
+        return { value: converted.toString(), type: targetType, unsigned: targetUnsigned };
     }
 
     /**
-     * Process an expression and return its LLVM representation (value or register)
+     * Process an expression and return its LLVM value and type
      */
-    private visitExpression(node: ts.Expression): string {
+    private visitExpression(node: ts.Expression): TypedValue {
+        // Compile-time constants become immediates without emitting any IR
+        const constant = this.evaluateConstant(node);
+        if (constant) {
+            return constant;
+        }
+
         if (ts.isNumericLiteral(node)) {
-            return node.getText(this.sourceFile);
+            return this.visitNumericLiteral(node);
+        }
+
+        // null is a pointer constant; it takes the pointer type it is stored to or compared with
+        if (this.isNullLiteral(node)) {
+            return { value: "null", type: "i8*" };
         }
 
         if (ts.isParenthesizedExpression(node)) {
@@ -601,39 +2343,283 @@ export class ASTWalker {
             return this.visitIdentifier(node);
         }
 
-        if (ts.isBinaryExpression(node)) {
-            return this.visitBinaryExpression(node);
+        if (node.kind === ts.SyntaxKind.ThisKeyword) {
+            return this.visitThisKeyword();
+        }
+
+        if (node.kind === ts.SyntaxKind.SuperKeyword) {
+            return this.visitSuperKeyword();
+        }
+
+        if (ts.isBinaryExpression(node)) {
+            return this.visitBinaryExpression(node);
+        }
+
+        if (ts.isPrefixUnaryExpression(node)) {
+            return this.visitPrefixUnaryExpression(node);
+        }
+
+        if (ts.isPostfixUnaryExpression(node)) {
+            return this.visitPostfixUnaryExpression(node);
+        }
+
+        if (ts.isCallExpression(node)) {
+            return this.visitCallExpression(node);
+        }
+
+        if (ts.isStringLiteral(node)) {
+            return this.visitStringLiteral(node);
+        }
+
+        if (ts.isPropertyAccessExpression(node)) {
+            return this.visitPropertyAccessExpression(node);
+        }
+
+        if (ts.isElementAccessExpression(node)) {
+            return this.visitElementAccessExpression(node);
+        }
+
+        if (ts.isAsExpression(node)) {
+            return this.visitAsExpression(node);
+        }
+
+        if (ts.isConditionalExpression(node)) {
+            return this.visitConditionalExpression(node);
+        }
+
+        if (ts.isNewExpression(node)) {
+            return this.visitNewExpression(node);
+        }
+
+        if (ts.isObjectLiteralExpression(node)) {
+            throw new Error("Object literal needs a struct type from context, e.g. let p: Point = { x: 1, y: 2 }");
+        }
+
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+            return this.visitFunctionExpression(node, undefined, false);
+        }
+
+        throw new Error(`Unsupported expression type: ${ts.SyntaxKind[node.kind]}`);
+    }
+
+    /**
+     * Process an expression stored to a known LLVM type (variable, field, parameter, return value)
+     * An object literal for a struct pointer type is built on the heap; an arrow function takes
+     * its signature from the target, and its environment goes on the heap if it escapes
+     */
+    private visitInitializer(node: ts.Expression, targetType: string | undefined, isEscaping: boolean = false): TypedValue {
+        this.checkNullAssignment(node);
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+            return this.visitFunctionExpression(node, targetType, isEscaping);
+        }
+        if (!ts.isObjectLiteralExpression(node) || !targetType?.endsWith("*")) {
+            return this.visitExpression(node);
+        }
+
+        const structName = targetType.replace(/^\%/, "").replace(/\*$/, "");
+        if (!this.structRegistry.get(structName)) {
+            throw new Error(`Object literal cannot initialize non-struct type ${targetType}`);
+        }
+
+        const structPtr = this.allocateStruct(structName, false);
+        this.emitObjectLiteral(node, structName, structPtr, false);
+        return { value: structPtr, type: targetType };
+    }
+
+    /**
+     * Process a new expression (new Vec2(1, 2)): the object is allocated on the heap and constructed
+     */
+    private visitNewExpression(node: ts.NewExpression): TypedValue {
+        const className = node.expression.getText(this.sourceFile);
+        if (!this.classConstructors.has(className)) {
+            throw new Error(`'new ${className}' requires a class declared in this module`);
+        }
+
+        const structPtr = this.allocateStruct(className, false);
+        this.constructObject(node, className, structPtr);
+        return { value: structPtr, type: `%${className}*` };
+    }
+
+    /**
+     * Construct a class instance in the struct at structPtr
+     * Fields start zeroed and the vtable pointer is set, so virtual calls in base constructors
+     * reach the overrides; the constructor runs the field initializers, then its body
+     */
+    private constructObject(node: ts.NewExpression, className: string, structPtr: string): void {
+        if (this.hasModifier(this.classDeclarations.get(className)!, ts.SyntaxKind.AbstractKeyword)) {
+            throw new Error(`Cannot create an instance of abstract class ${className}`);
+        }
+
+        const object: TypedValue = { value: structPtr, type: `%${className}*` };
+        this.emitter.emitStore(`%${className}`, "zeroinitializer", structPtr);
+
+        const vtable = this.classVTables.get(className);
+        if (vtable) {
+            const vtableType = `[${vtable.length + 1} x i8*]`;
+            const vtablePtr = `getelementptr inbounds (${vtableType}, ${vtableType}* @${className}_vtable, i32 0, i32 0)`;
+            this.emitter.emitStore("i8**", vtablePtr, this.getFieldAddress(object, VTABLE_FIELD).ptr);
+        }
+
+        this.emitConstructorCall(className, object, this.visitConstructorArguments(className, node.arguments ?? []));
+    }
+
+    /**
+     * Evaluate the arguments of a constructor call (new Vec2(...) or super(...))
+     */
+    private visitConstructorArguments(className: string, argNodes: readonly ts.Expression[]): TypedValue[] {
+        const constructor = this.classConstructors.get(className)!;
+        if (argNodes.length !== constructor.params.length - 1) {
+            throw new Error(`Constructor of ${className} expects ${constructor.params.length - 1} arguments, got ${argNodes.length}`);
+        }
+        return argNodes.map((arg, i) => this.visitInitializer(arg, constructor.params[i + 1].type));
+    }
+
+    /**
+     * Call a class constructor on an object (a new instance, or "this" in super(...))
+     */
+    private emitConstructorCall(className: string, object: TypedValue, args: TypedValue[]): void {
+        const constructor = this.classConstructors.get(className)!;
+        const argStrs = [object, ...args].map((arg, i) => {
+            const value = this.coerceValue(arg, constructor.params[i].type);
+            return `${value.type} ${value.value}`;
+        });
+        this.emitter.emitCall(null, "void", constructor.mangledName, argStrs.join(", "));
+    }
+
+    /**
+     * Allocate a struct on the stack (alloca) or on the heap (malloc), returning a %Name* register
+     */
+    private allocateStruct(structName: string, onStack: boolean): string {
+        const structPtr = this.context.nextTemp();
+        if (onStack) {
+            this.emitter.emitAlloca(structPtr, `%${structName}`);
+            return structPtr;
+        }
+
+        const malloc = this.externFunctions.get("malloc");
+        if (!malloc) {
+            throw new Error(`Allocating ${structName} on the heap requires malloc to be declared`);
         }
+        const size = this.coerceValue({ value: this.structRegistry.get(structName)!.size.toString(), type: "i32" }, malloc.params[0].type);
+        const rawPtr = this.context.nextTemp();
+        this.emitter.emitCall(rawPtr, malloc.returnType, "malloc", `${size.type} ${size.value}`);
+        return this.castValue({ value: rawPtr, type: malloc.returnType }, `%${structName}*`).value;
+    }
 
-        if (ts.isPrefixUnaryExpression(node)) {
-            return this.visitPrefixUnaryExpression(node);
+    /**
+     * Initialize every field of the struct at structPtr from an object literal
+     * Nested literals fill Inline<T> fields in place; for pointer fields they are allocated
+     * like the enclosing struct (stack or heap)
+     */
+    private emitObjectLiteral(
+        node: ts.ObjectLiteralExpression,
+        structName: string,
+        structPtr: string,
+        onStack: boolean
+    ): void {
+        const structDef = this.structRegistry.get(structName)!;
+        const initializers = new Map<string, ts.Expression>();
+
+        for (const property of node.properties) {
+            if (ts.isPropertyAssignment(property)) {
+                initializers.set(property.name.getText(this.sourceFile), property.initializer);
+            } else if (ts.isShorthandPropertyAssignment(property)) {
+                initializers.set(property.name.getText(this.sourceFile), property.name);
+            } else {
+                throw new Error(`Unsupported object literal member in ${structName}: ${property.getText(this.sourceFile)}`);
+            }
         }
 
-        if (ts.isCallExpression(node)) {
-            return this.visitCallExpression(node);
+        for (const fieldName of initializers.keys()) {
+            if (!structDef.fields.some(f => f.name === fieldName)) {
+                throw new Error(`Unknown field '${fieldName}' in struct '${structName}'`);
+            }
         }
 
-        if (ts.isStringLiteral(node)) {
-            return this.visitStringLiteral(node);
+        const structValue: TypedValue = { value: structPtr, type: `%${structName}*` };
+        for (const field of structDef.fields) {
+            const addr = this.getFieldAddress(structValue, field.name);
+            const initializer = initializers.get(field.name);
+            if (!initializer) {
+                if (!field.isOptional) {
+                    throw new Error(`Object literal for ${structName} is missing field '${field.name}'`);
+                }
+                this.storeToAddress(addr, { value: "null", type: field.type });
+                continue;
+            }
+
+            if (ts.isObjectLiteralExpression(initializer) && this.isInlineStructType(field.type)) {
+                this.emitObjectLiteral(initializer, field.type.slice(1), addr.ptr, onStack);
+            } else if (ts.isObjectLiteralExpression(initializer) && this.structRegistry.get(field.type.slice(1, -1))) {
+                const nestedName = field.type.slice(1, -1);
+                const nestedPtr = this.allocateStruct(nestedName, onStack);
+                this.emitObjectLiteral(initializer, nestedName, nestedPtr, onStack);
+                this.storeToAddress(addr, { value: nestedPtr, type: field.type });
+            } else {
+                const stackStruct = onStack || this.isInlineStructType(field.type) ? undefined : this.getStackStruct(initializer);
+                if (stackStruct) {
+                    throw new Error(
+                        `Cannot store a pointer to stack struct '${stackStruct}' in heap-allocated ${structName}.${field.name}; ` +
+                        `it does not outlive the function`
+                    );
+                }
+                this.storeToAddress(addr, this.visitInitializer(initializer, field.type, !onStack));
+            }
         }
+    }
 
-        if (ts.isPropertyAccessExpression(node)) {
-            return this.visitPropertyAccessExpression(node);
+    /**
+     * Process a numeric literal
+     * Integer literals are i32; literals with a fraction or exponent are double
+     */
+    private visitNumericLiteral(node: ts.NumericLiteral): TypedValue {
+        const text = node.getText(this.sourceFile);
+        const value = Number(node.text);
+        const isFloatLiteral = /[.eE]/.test(text) && !/^0[xX]/.test(text);
+
+        if (isFloatLiteral) {
+            return { value: TypeMapper.formatFloatConstant(value, "double"), type: "double" };
         }
 
-        if (ts.isElementAccessExpression(node)) {
-            return this.visitElementAccessExpression(node);
+        // Integer literals that don't fit in i32 become i64
+        const type = value >= -(2 ** 31) && value < 2 ** 31 ? "i32" : "i64";
+        return { value: value.toString(), type };
+    }
+
+    /**
+     * Process an explicit cast: x as i64, p as f64, malloc(n) as Point[]
+     */
+    private visitAsExpression(node: ts.AsExpression): TypedValue {
+        const value = this.visitExpression(node.expression);
+        const targetType = this.resolveLLVMType(node.type);
+        const targetUnsigned = TypeMapper.isUnsigned(node.type.getText(this.sourceFile));
+
+        // Converting to boolean tests against zero rather than truncating (2 as boolean is true)
+        if (targetType === "i1" && value.type !== "i1") {
+            return { value: this.ensureBooleanCondition(value), type: "i1" };
         }
 
-        throw new Error(`Unsupported expression type: ${ts.SyntaxKind[node.kind]}`);
+        return this.castValue(value, targetType, targetUnsigned);
     }
 
     /**
      * Process a function call expression
      */
-    private visitCallExpression(node: ts.CallExpression): string {
+    private visitCallExpression(node: ts.CallExpression): TypedValue {
         const funcExpr = node.expression;
 
+        // Base constructor call in a derived class constructor: super(args)
+        if (funcExpr.kind === ts.SyntaxKind.SuperKeyword) {
+            const baseClass = this.currentClass ? this.structRegistry.get(this.currentClass.name)!.baseName : undefined;
+            this.emitSuperCall(baseClass ? this.visitConstructorArguments(baseClass, node.arguments) : []);
+            return { value: "0", type: "void" };
+        }
+
+        // Calls through a function pointer: a variable, struct field or array element holding one
+        if (this.isIndirectCallee(funcExpr)) {
+            return this.visitIndirectCall(node);
+        }
+
         // Handle method calls: obj.method(args)
         if (ts.isPropertyAccessExpression(funcExpr)) {
             return this.visitMethodCallExpression(node, funcExpr);
@@ -646,72 +2632,43 @@ export class ASTWalker {
 
         const funcName = funcExpr.getText(this.sourceFile);
 
-        // Handle sizeof<T>() intrinsic
-        if (funcName === "sizeof" && node.typeArguments && node.typeArguments.length > 0) {
-            const typeArg = node.typeArguments[0];
-            const resolvedTypeName = this.resolveTypeName(typeArg);
-            const struct = this.structRegistry.get(resolvedTypeName);
-
-            if (!struct) {
-                throw new Error(`sizeof: Unknown type '${resolvedTypeName}' (resolved from ${typeArg.getText(this.sourceFile)})`);
-            }
-
-            // Return the struct size as a constant
-            return struct.size.toString();
+        // Handle sizeof<T>(), alignof<T>() and offsetof<T>("field") intrinsics
+        if (this.isLayoutIntrinsic(node)) {
+            return this.visitLayoutIntrinsic(node);
         }
 
-        // Resolve the function: check importMap, then internal, then external
-        let resolvedName: string;
-        let funcInfo: ExternFunction | InternalFunction | undefined;
-        let isVariadic = false;
-
-        // 1. Check if this was imported from another module
-        if (this.importMap.has(funcName)) {
-            resolvedName = this.importMap.get(funcName)!;
-            // Find the function info by checking all internal functions
-            for (const [, func] of this.internalFunctions) {
-                if (func.mangledName === resolvedName) {
-                    funcInfo = func;
-                    break;
-                }
+        const resolved = this.lookupFunction(funcName);
+        if (!resolved) {
+            const enumName = funcName.match(/^(\w+)_toString$/)?.[1];
+            if (enumName) {
+                this.checkNotConstEnum(enumName);
             }
-        }
-        // 2. Check internal functions (local to this module)
-        else if (this.internalFunctions.has(funcName)) {
-            funcInfo = this.internalFunctions.get(funcName);
-            resolvedName = (funcInfo as InternalFunction).mangledName;
-        }
-        // 3. Check external functions (C FFI)
-        else if (this.externFunctions.has(funcName)) {
-            funcInfo = this.externFunctions.get(funcName);
-            resolvedName = funcName;  // External functions keep their original name
-            isVariadic = (funcInfo as ExternFunction).isVariadic;
-        }
-        // 4. Not found
-        else {
             throw new Error(`Unknown function: ${funcName}`);
         }
-
-        if (!funcInfo) {
-            throw new Error(`Could not resolve function info for: ${funcName} (resolved to ${resolvedName})`);
-        }
+        const { resolvedName, funcInfo, isVariadic } = resolved;
 
         // Process arguments
         const args: string[] = [];
 
         for (let i = 0; i < node.arguments.length; i++) {
-            const arg = node.arguments[i];
-            const value = this.visitExpression(arg);
+            let value = this.visitInitializer(node.arguments[i], funcInfo.params[i]?.type);
+
+            // free(closure) releases the closure's heap environment
+            if (funcName === "free" && TypeMapper.isClosure(value.type)) {
+                const envReg = this.context.nextTemp();
+                this.emitter.emitLine(`${envReg} = extractvalue ${value.type} ${value.value}, 1`);
+                value = { value: envReg, type: "i8*" };
+            }
 
-            // Determine argument type
-            let argType = "i32";  // Default
+            // Fixed parameters are converted to the declared type;
+            // variadic arguments get the C default argument promotions
             if (i < funcInfo.params.length) {
-                argType = funcInfo.params[i].type;
-            } else if (ts.isStringLiteral(arg)) {
-                argType = "i8*";
+                value = this.coerceValue(value, funcInfo.params[i].type);
+            } else if (isVariadic) {
+                value = this.promoteVariadicArgument(value);
             }
 
-            args.push(`${argType} ${value}`);
+            args.push(`${value.type} ${value.value}`);
         }
 
         const argsStr = args.join(", ");
@@ -734,7 +2691,163 @@ export class ASTWalker {
             );
         }
 
-        return funcInfo.returnType !== "void" ? resultReg : "0";
+        return {
+            value: funcInfo.returnType !== "void" ? resultReg : "0",
+            type: funcInfo.returnType,
+            unsigned: funcInfo.unsignedReturn,
+        };
+    }
+
+    /**
+     * Resolve a function by name: check importMap, then internal, then external
+     */
+    private lookupFunction(funcName: string): {
+        resolvedName: string;
+        funcInfo: ExternFunction | InternalFunction;
+        isVariadic: boolean;
+    } | undefined {
+        // 1. Check if this was imported from another module
+        if (this.importMap.has(funcName)) {
+            const resolvedName = this.importMap.get(funcName)!;
+            // Find the function info by checking all internal functions
+            for (const [, func] of this.internalFunctions) {
+                if (func.mangledName === resolvedName) {
+                    return { resolvedName, funcInfo: func, isVariadic: false };
+                }
+            }
+            throw new Error(`Could not resolve function info for: ${funcName} (resolved to ${resolvedName})`);
+        }
+
+        // 2. Check internal functions (local to this module)
+        const internal = this.internalFunctions.get(funcName);
+        if (internal) {
+            return { resolvedName: internal.mangledName, funcInfo: internal, isVariadic: false };
+        }
+
+        // 3. Check external functions (C FFI); they keep their original name
+        const external = this.externFunctions.get(funcName);
+        if (external) {
+            return { resolvedName: funcName, funcInfo: external, isVariadic: external.isVariadic };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check if a callee is a function pointer value rather than a function or method name
+     */
+    private isIndirectCallee(node: ts.Expression): boolean {
+        if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+            const storedType = this.getStoredType(node);
+            return storedType !== undefined && (TypeMapper.isFunctionPointer(storedType) || TypeMapper.isClosure(storedType));
+        }
+        return true;
+    }
+
+    /**
+     * Process a call through a function pointer: op(a, b), table.compare(a, b), handlers[i](x)
+     */
+    private visitIndirectCall(node: ts.CallExpression): TypedValue {
+        this.checkNotNull(node.expression);
+        let callee = this.visitExpression(node.expression);
+        const args: string[] = [];
+
+        // A closure is called through its function, with its environment as the first argument
+        if (TypeMapper.isClosure(callee.type)) {
+            const functionType = callee.type.slice("{ ".length, -", i8* }".length);
+            const functionReg = this.context.nextTemp();
+            const envReg = this.context.nextTemp();
+            this.emitter.emitLine(`${functionReg} = extractvalue ${callee.type} ${callee.value}, 0`);
+            this.emitter.emitLine(`${envReg} = extractvalue ${callee.type} ${callee.value}, 1`);
+            args.push(`i8* ${envReg}`);
+            callee = { value: functionReg, type: functionType };
+        } else if (!TypeMapper.isFunctionPointer(callee.type)) {
+            throw new Error(`Cannot call a value of type ${callee.type}: ${node.expression.getText(this.sourceFile)}`);
+        }
+
+        const signature = TypeMapper.parseFunctionPointerType(callee.type);
+        const { returnType, isVariadic } = signature;
+        const paramTypes = signature.paramTypes.slice(args.length);
+        if (node.arguments.length < paramTypes.length || (!isVariadic && node.arguments.length > paramTypes.length)) {
+            throw new Error(`Expected ${paramTypes.length} arguments in call to ${node.expression.getText(this.sourceFile)}`);
+        }
+
+        for (let i = 0; i < node.arguments.length; i++) {
+            const value = i < paramTypes.length
+                ? this.coerceValue(this.visitInitializer(node.arguments[i], paramTypes[i]), paramTypes[i])
+                : this.promoteVariadicArgument(this.visitExpression(node.arguments[i]));
+            args.push(`${value.type} ${value.value}`);
+        }
+
+        const resultReg = returnType !== "void" ? this.context.nextTemp() : null;
+        this.emitter.emitIndirectCall(resultReg, callee.type.slice(0, -1), callee.value, args.join(", "));
+        return { value: resultReg ?? "0", type: returnType };
+    }
+
+    /**
+     * Check if a call is a struct layout intrinsic: sizeof<T>(), alignof<T>() or offsetof<T>("field")
+     */
+    private isLayoutIntrinsic(node: ts.CallExpression): boolean {
+        return ts.isIdentifier(node.expression) &&
+            ["sizeof", "alignof", "offsetof"].includes(node.expression.getText(this.sourceFile)) &&
+            node.typeArguments !== undefined && node.typeArguments.length > 0;
+    }
+
+    /**
+     * Process a struct layout intrinsic (a compile-time constant)
+     */
+    private visitLayoutIntrinsic(node: ts.CallExpression): TypedValue {
+        const intrinsic = node.expression.getText(this.sourceFile);
+        const typeArg = node.typeArguments![0];
+        const resolvedTypeName = this.resolveTypeName(typeArg);
+        const struct = this.structRegistry.get(resolvedTypeName);
+
+        // Primitives and enums have their C size and alignment (sizeof<f64>() is 8, alignof<i16>() is 2)
+        const isScalar = TypeMapper.isPrimitive(resolvedTypeName) || this.enumRegistry.isEnum(resolvedTypeName);
+        if (!struct && isScalar && intrinsic !== "offsetof") {
+            const llvmType = this.resolveLLVMType(typeArg);
+            const value = intrinsic === "alignof"
+                ? this.structRegistry.getTypeAlignment(llvmType)
+                : this.structRegistry.getTypeSize(llvmType);
+            return { value: value.toString(), type: "i32" };
+        }
+
+        if (!struct) {
+            throw new Error(`${intrinsic}: Unknown type '${resolvedTypeName}' (resolved from ${typeArg.getText(this.sourceFile)})`);
+        }
+
+        if (intrinsic === "alignof") {
+            return { value: struct.alignment.toString(), type: "i32" };
+        }
+
+        if (intrinsic === "offsetof") {
+            const fieldArg = node.arguments[0];
+            if (!fieldArg || !ts.isStringLiteral(fieldArg)) {
+                throw new Error(`offsetof<${resolvedTypeName}>() requires a field name string, e.g. offsetof<Point>("y")`);
+            }
+            const field = struct.fields.find(f => f.name === fieldArg.text);
+            if (!field) {
+                throw new Error(`Unknown field '${fieldArg.text}' in struct '${resolvedTypeName}'`);
+            }
+            return { value: field.offset.toString(), type: "i32" };
+        }
+
+        // Return the struct size (including padding) as a constant
+        return { value: struct.size.toString(), type: "i32" };
+    }
+
+    /**
+     * Apply the C default argument promotions to a variadic argument
+     * (float is passed as double, integers narrower than int as i32)
+     */
+    private promoteVariadicArgument(value: TypedValue): TypedValue {
+        if (value.type === "float") {
+            return this.coerceValue(value, "double");
+        }
+        if (TypeMapper.isInteger(value.type) && TypeMapper.getIntegerBits(value.type) < 32) {
+            return this.coerceValue(value, "i32");
+        }
+        return value;
     }
 
     /**
@@ -744,54 +2857,47 @@ export class ASTWalker {
     private visitMethodCallExpression(
         node: ts.CallExpression,
         funcExpr: ts.PropertyAccessExpression
-    ): string {
-        const objExpr = funcExpr.expression;
+    ): TypedValue {
         const methodName = funcExpr.name.getText(this.sourceFile);
 
-        // Get the object's type by looking up the variable
-        if (!ts.isIdentifier(objExpr)) {
-            throw new Error("Method calls only supported on direct identifiers");
-        }
+        // Evaluate the object: this is the struct pointer passed as "this"
+        this.checkNotNull(funcExpr.expression);
+        const objPtr = this.visitExpression(funcExpr.expression);
 
-        const objName = objExpr.getText(this.sourceFile);
-        const variable = this.context.lookupVariable(objName);
+        // Extract struct type from the pointer type (e.g., "%Rect*" -> "Rect");
+        // enum values are plain integers, so their enum type comes from the checker
+        const structType = objPtr.type.endsWith("*")
+            ? objPtr.type.replace(/^\%/, "").replace(/\*$/, "")
+            : this.typeChecker.typeToString(
+                this.typeChecker.getBaseTypeOfLiteralType(this.typeChecker.getTypeAtLocation(funcExpr.expression))
+            );
 
-        if (!variable) {
-            throw new Error(`Undefined variable: ${objName}`);
+        const methodInfo = this.findMethod(structType, methodName);
+        if (!methodInfo && methodName === "toString") {
+            this.checkNotConstEnum(structType);
         }
-
-        // Extract struct type from variable type (e.g., "%Rect*" -> "Rect")
-        const structType = variable.llvmType.replace(/^\%/, "").replace(/\*$/, "");
-
-        // Look up the method in methodRegistry
-        const methods = this.methodRegistry.get(structType);
-        if (!methods || !methods.has(methodName)) {
+        if (!methodInfo) {
             throw new Error(`Unknown method '${methodName}' for type '${structType}'`);
         }
+        this.checkMemberAccess("Method", methodName, methodInfo);
 
-        const methodInfo = methods.get(methodName)!;
-
-        // Get the object pointer (this will be the first argument)
-        const objAddr = this.getStorageAddress(objExpr);
-
-        // Build arguments: first arg is the object pointer (this)
-        const args: string[] = [];
+        // super.method() calls the base implementation directly
+        const isSuperCall = funcExpr.expression.kind === ts.SyntaxKind.SuperKeyword;
+        if (isSuperCall && methodInfo.isAbstract) {
+            throw new Error(`Cannot call abstract method '${methodName}' through super`);
+        }
 
-        // First argument: the object pointer
-        const ptrType = objAddr.type.startsWith("%") ? `${objAddr.type}*` : `%${objAddr.type}*`;
-        args.push(`${ptrType} ${objAddr.ptr}`);
+        // Build arguments: first arg is the object pointer (this), upcast to the method's type
+        const thisValue = this.coerceValue(objPtr, methodInfo.params[0].type);
+        const args: string[] = [`${thisValue.type} ${thisValue.value}`];
 
-        // Process remaining arguments
+        // Process remaining arguments (method params are offset by 1 for 'this')
         for (let i = 0; i < node.arguments.length; i++) {
-            const arg = node.arguments[i];
-            const value = this.visitExpression(arg);
-
-            // Get arg type from method params (offset by 1 for 'this')
-            let argType = "i32";
+            let value = this.visitInitializer(node.arguments[i], methodInfo.params[i + 1]?.type);
             if (i + 1 < methodInfo.params.length) {
-                argType = methodInfo.params[i + 1].type;
+                value = this.coerceValue(value, methodInfo.params[i + 1].type);
             }
-            args.push(`${argType} ${value}`);
+            args.push(`${value.type} ${value.value}`);
         }
 
         const argsStr = args.join(", ");
@@ -799,16 +2905,113 @@ export class ASTWalker {
             ? this.context.nextTemp()
             : null;
 
-        // Emit the call
-        this.emitter.emitCall(resultReg, methodInfo.returnType, methodInfo.mangledName, argsStr);
+        // Emit the call: virtual and interface methods go through the object's vtable,
+        // others are called directly
+        if (methodInfo.vtableIndex !== undefined && !isSuperCall) {
+            const functionType = TypeMapper.getFunctionPointerType(methodInfo.returnType, methodInfo.params.map(p => p.type));
+            const callee = methodInfo.interfaceName
+                ? this.loadInterfaceMethod(thisValue, methodInfo.interfaceName, methodInfo.vtableIndex, functionType)
+                : this.loadVirtualMethod(thisValue, methodInfo.vtableIndex, functionType);
+            this.emitter.emitIndirectCall(resultReg, functionType.slice(0, -1), callee, argsStr);
+        } else {
+            this.emitter.emitCall(resultReg, methodInfo.returnType, methodInfo.mangledName, argsStr);
+        }
+
+        return { value: resultReg ?? "0", type: methodInfo.returnType, unsigned: methodInfo.unsignedReturn };
+    }
+
+    /**
+     * Reject toString on a const enum: its member names are not kept at runtime
+     */
+    private checkNotConstEnum(enumName: string): void {
+        if (this.enumRegistry.get(enumName)?.isConst) {
+            throw new Error(`const enum ${enumName} has no toString(); declare it without 'const' to keep its member names`);
+        }
+    }
+
+    /**
+     * Look up a method of a type in methodRegistry, then in its bases (this: Shape on a Circle)
+     */
+    private findMethod(structType: string, methodName: string): InternalFunction | undefined {
+        for (let type: string | undefined = structType; type; type = this.structRegistry.get(type)?.baseName) {
+            const methodInfo = this.methodRegistry.get(type)?.get(methodName);
+            if (methodInfo) {
+                return methodInfo;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Load a virtual method's implementation from an object's vtable, as a function pointer
+     * (entry 0 of the vtable points to the interface tables, slots follow)
+     */
+    private loadVirtualMethod(object: TypedValue, vtableIndex: number, functionType: string): string {
+        const vtable = this.loadFromAddress(this.getFieldAddress(object, VTABLE_FIELD));
+        return this.loadMethodPointer(vtable.value, vtableIndex + 1, functionType);
+    }
+
+    /**
+     * Load an interface method's implementation from the object's itable for the interface
+     * The object's type is the interface, which has no fields: its vtable is the first word
+     */
+    private loadInterfaceMethod(object: TypedValue, interfaceName: string, index: number, functionType: string): string {
+        const vtable = this.context.nextTemp();
+        this.emitter.emitLoad(vtable, "i8**", this.castValue(object, "i8***").value);
+        const itable = this.context.nextTemp();
+        this.emitter.emitCall(itable, "i8**", this.getItableLookup(), `i8** ${vtable}, i8* @${interfaceName}_iid`);
+        return this.loadMethodPointer(itable, index, functionType);
+    }
+
+    /**
+     * Load an entry of a vtable or itable, as a function pointer
+     */
+    private loadMethodPointer(table: string, index: number, functionType: string): string {
+        const slotPtr = this.context.nextTemp();
+        this.emitter.emitLine(`${slotPtr} = getelementptr i8*, i8** ${table}, i32 ${index}`);
+        const entry = this.context.nextTemp();
+        this.emitter.emitLoad(entry, "i8*", slotPtr);
+        return this.castValue({ value: entry, type: "i8*" }, functionType).value;
+    }
 
-        return resultReg ?? "0";
+    /**
+     * Get the function finding an interface's itable among a class's (vtable entry 0), emitting it
+     * on first use: i8** @main_itable.find(i8** vtable, i8* iid)
+     * The object's class implements the interface, so the search needs no bound
+     */
+    private getItableLookup(): string {
+        const name = `${this.currentModule}_itable.find`;
+        if (this.itableLookupEmitted) {
+            return name;
+        }
+        this.itableLookupEmitted = true;
+
+        const pairType = "{ i8*, i8** }";
+        this.emitter.beginLiftedFunction();
+        this.emitter.emitLabel("entry");
+        this.emitter.emitLoad("%pairs.raw", "i8*", "%vtable");
+        this.emitter.emitBitcast("%pairs", "i8*", "%pairs.raw", `${pairType}*`);
+        this.emitter.emitBranch("search");
+        this.emitter.emitLabel("search");
+        this.emitter.emitPhi("%i", "i32", [{ value: "0", label: "entry" }, { value: "%next", label: "search" }]);
+        this.emitter.emitLine(`%id.ptr = getelementptr ${pairType}, ${pairType}* %pairs, i32 %i, i32 0`);
+        this.emitter.emitLoad("%id", "i8*", "%id.ptr");
+        this.emitter.emitBinaryOp("%next", "add", "i32", "%i", "1");
+        this.emitter.emitLine("%match = icmp eq i8* %id, %iid");
+        this.emitter.emitConditionalBranch("%match", "found", "search");
+        this.emitter.emitLabel("found");
+        this.emitter.emitLine(`%itable.ptr = getelementptr ${pairType}, ${pairType}* %pairs, i32 %i, i32 1`);
+        this.emitter.emitLoad("%itable", "i8**", "%itable.ptr");
+        this.emitter.emitReturn("i8**", "%itable");
+        this.emitter.emitFunctionEnd();
+        this.emitter.endLiftedFunction(`define internal i8** @${name}(i8** %vtable, i8* %iid) {`);
+        return name;
     }
 
     /**
      * Process a string literal
      */
-    private visitStringLiteral(node: ts.StringLiteral): string {
+    private visitStringLiteral(node: ts.StringLiteral): TypedValue {
         // Get the string value (without quotes)
         const value = node.text;
 
@@ -825,17 +3028,28 @@ export class ASTWalker {
             "i32 0, i32 0"
         );
 
-        return resultReg;
+        return { value: resultReg, type: "i8*" };
+    }
+
+    /**
+     * Get a constant expression pointing to a string constant's first character
+     * (for global initializers, where no getelementptr instruction can be emitted)
+     */
+    private getStringConstantPointer(text: string): string {
+        const { name, length } = this.emitter.addStringConstant(text);
+        const arrayType = `[${length} x i8]`;
+        return `getelementptr inbounds (${arrayType}, ${arrayType}* ${name}, i32 0, i32 0)`;
     }
 
     /**
      * Get the storage address (L-value) of an expression
      * Handles nested struct access recursively: line.start.x
-     * 
+     *
      * Returns { ptr: LLVM register pointing to the value, type: LLVM type of the value }
+     * isWrite is false when the address is only read from (class field access checks)
      */
-    private getStorageAddress(node: ts.Expression): { ptr: string; type: string } {
-        // CASE A: Variable identifier (base case)
+    private getStorageAddress(node: ts.Expression, isWrite: boolean = true): StorageAddress {
+        // CASE A: Variable identifier (base case) - its stack slot or global
         if (ts.isIdentifier(node)) {
             const name = node.getText(this.sourceFile);
             const variable = this.context.lookupVariable(name);
@@ -843,154 +3057,421 @@ export class ASTWalker {
             if (!variable) {
                 throw new Error(`Undefined variable: ${name}`);
             }
+            if (variable.isConstant) {
+                throw new Error(`Cannot assign to constant '${name}'`);
+            }
+
+            return { ptr: variable.llvmName, type: variable.llvmType, unsigned: variable.isUnsigned };
+        }
 
-            // Load the pointer from the stack variable
-            const loadedPtr = this.context.nextTemp();
-            this.emitter.emitLoad(loadedPtr, variable.llvmType, variable.llvmName);
+        // CASE B: Property access (recursive case): obj.field or obj.nested.field
+        if (ts.isPropertyAccessExpression(node)) {
+            // 1. Evaluate the parent to get the struct pointer
+            //    (for nested access this loads the pointer stored in the parent field,
+            //    or takes the address of an inline parent field without a load)
+            this.checkNotNull(node.expression);
+            const parent = this.visitExpression(node.expression);
+            const fieldName = node.name.getText(this.sourceFile);
+            this.checkFieldAccess(parent.type, fieldName, isWrite);
 
-            // Return the pointer and the base type (without trailing *)
-            const baseType = variable.llvmType.replace(/\*$/, "");
-            return { ptr: loadedPtr, type: baseType };
+            // 2. GEP to the field within the parent struct
+            return this.getFieldAddress(parent, fieldName);
         }
 
-        // CASE A2: "this" keyword (for method context)
-        if (node.kind === ts.SyntaxKind.ThisKeyword) {
-            const variable = this.context.lookupVariable("this");
+        // CASE C: Array element: arr[i]
+        if (ts.isElementAccessExpression(node)) {
+            return this.getElementPointer(node);
+        }
 
-            if (!variable) {
-                throw new Error(`'this' used outside of method context`);
+        throw new Error(`Cannot get storage address for: ${ts.SyntaxKind[node.kind]}`);
+    }
+
+    /**
+     * Process an arrow function or function expression: (dt: f64) => state.t += dt
+     * The body is lifted to a top-level function. Without captures the value is a plain
+     * function pointer; otherwise it is a closure whose environment struct holds the captures,
+     * in the stack frame, or on the heap (released with free) if the closure escapes
+     */
+    private visitFunctionExpression(
+        node: ts.ArrowFunction | ts.FunctionExpression,
+        targetType: string | undefined,
+        isEscaping: boolean
+    ): TypedValue {
+        const captures = this.getCaptures(node);
+        const isClosure = captures.length > 0 || (targetType !== undefined && TypeMapper.isClosure(targetType));
+
+        if (captures.length > 0 && targetType && !TypeMapper.isClosure(targetType)) {
+            throw new Error(`A function capturing '${captures[0].name}' must be stored as a Closure<...>, not ${targetType}`);
+        }
+        if (isEscaping) {
+            const unsafe = captures.find(c => c.byReference || c.variable.stackStruct);
+            if (unsafe) {
+                throw new Error(
+                    `Closure outliving its function cannot capture '${unsafe.name}' by reference; capture a const instead`
+                );
             }
+        }
 
-            // Load the pointer from the stack variable
-            const loadedPtr = this.context.nextTemp();
-            this.emitter.emitLoad(loadedPtr, variable.llvmType, variable.llvmName);
+        // Signature: declared by the target type, or by the annotations
+        let signature: { returnType?: string; paramTypes: string[] } | undefined;
+        if (targetType && TypeMapper.isClosure(targetType)) {
+            signature = TypeMapper.parseClosureType(targetType);
+        } else if (targetType && TypeMapper.isFunctionPointer(targetType)) {
+            signature = TypeMapper.parseFunctionPointerType(targetType);
+        }
 
-            // Return the pointer and the base type (without trailing *)
-            const baseType = variable.llvmType.replace(/\*$/, "");
-            return { ptr: loadedPtr, type: baseType };
+        const envName = `${this.currentModule}_lambda.${this.lambdaCounter}_env`;
+        const envFields = captures.filter(c => c.variable.constantValue === undefined);
+        if (envFields.length > 0) {
+            this.structRegistry.register(envName, envFields.map(c => ({
+                name: c.name,
+                tsType: c.variable.llvmType,
+                llvmType: c.byReference ? `${c.variable.llvmType}*` : c.variable.llvmType,
+            })));
         }
 
-        // CASE B: Property access (recursive case): obj.field or obj.nested.field
-        if (ts.isPropertyAccessExpression(node)) {
-            // 1. Recursively get the parent's storage address
-            const parent = this.getStorageAddress(node.expression);
+        const lifted = this.emitLiftedFunction(node, captures, envFields.length > 0 ? envName : undefined, isClosure, signature);
+        const functionType = TypeMapper.getFunctionPointerType(
+            lifted.returnType,
+            isClosure ? ["i8*", ...lifted.paramTypes] : lifted.paramTypes
+        );
+        if (!isClosure) {
+            return { value: `@${lifted.name}`, type: functionType };
+        }
 
-            // 2. Get struct type name (e.g., "%Point" -> "Point")
-            // Remove leading % and trailing * for struct lookup
-            const structType = parent.type.replace(/^\%/, "").replace(/\*$/, "");
-            const fieldName = node.name.getText(this.sourceFile);
+        // Fill in the environment: addresses of by-reference captures, copies of the others
+        let envPtr = "null";
+        if (envFields.length > 0) {
+            const env: TypedValue = { value: this.allocateStruct(envName, !isEscaping), type: `%${envName}*` };
+            for (const capture of envFields) {
+                const addr = this.getFieldAddress(env, capture.name);
+                const value = capture.byReference
+                    ? { value: capture.variable.llvmName, type: addr.type }
+                    : this.loadFromAddress({ ptr: capture.variable.llvmName, type: capture.variable.llvmType });
+                this.emitter.emitStore(addr.type, value.value, addr.ptr);
+            }
+            envPtr = this.castValue(env, "i8*").value;
+        }
+
+        return this.makeClosure(`@${lifted.name}`, functionType, envPtr);
+    }
+
+    /**
+     * Build a closure value (fat pointer) from a function pointer and an environment pointer
+     */
+    private makeClosure(functionPtr: string, functionType: string, envPtr: string): TypedValue {
+        const closureType = `{ ${functionType}, i8* }`;
+        const partial = this.context.nextTemp();
+        const closure = this.context.nextTemp();
+        this.emitter.emitLine(`${partial} = insertvalue ${closureType} undef, ${functionType} ${functionPtr}, 0`);
+        this.emitter.emitLine(`${closure} = insertvalue ${closureType} ${partial}, i8* ${envPtr}, 1`);
+        return { value: closure, type: closureType };
+    }
+
+    /**
+     * Find the variables of the enclosing function used inside an arrow function
+     * Globals need no capture; variables declared inside the arrow function are its own
+     */
+    private getCaptures(node: ts.ArrowFunction | ts.FunctionExpression): Capture[] {
+        const captures = new Map<string, Capture>();
+
+        const capture = (name: string) => {
+            const variable = this.context.lookupVariable(name);
+            if (variable && !variable.llvmName.startsWith("@") && !captures.has(name)) {
+                // "this" and const variables cannot change, so a copy behaves like the variable
+                const byReference = name !== "this" && (!variable.isConstant || this.isInlineStructType(variable.llvmType));
+                captures.set(name, { name, variable, byReference });
+            }
+        };
+
+        const visit = (child: ts.Node): void => {
+            if (ts.isTypeNode(child)) {
+                return;
+            }
+            if (child.kind === ts.SyntaxKind.ThisKeyword && ts.isArrowFunction(node)) {
+                capture("this");
+            }
+            if (ts.isIdentifier(child) && !this.isPropertyName(child)) {
+                const symbol = ts.isShorthandPropertyAssignment(child.parent)
+                    ? this.typeChecker.getShorthandAssignmentValueSymbol(child.parent)
+                    : this.typeChecker.getSymbolAtLocation(child);
+                const declaration = symbol?.valueDeclaration;
+                const isOwn = declaration !== undefined && declaration.getSourceFile() === node.getSourceFile() &&
+                    declaration.pos >= node.pos && declaration.end <= node.end;
+                if (declaration && !isOwn) {
+                    capture(child.text);
+                }
+            }
+            ts.forEachChild(child, visit);
+        };
+        node.parameters.forEach(p => p.initializer && visit(p.initializer));
+        visit(node.body);
+
+        return Array.from(captures.values());
+    }
+
+    /**
+     * Check if an identifier names a property rather than a variable (p.x, { x: 1 })
+     */
+    private isPropertyName(node: ts.Identifier): boolean {
+        const parent = node.parent;
+        return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+            (ts.isPropertyAssignment(parent) && parent.name === node);
+    }
+
+    /**
+     * Emit the body of an arrow function as a top-level function
+     * Closures take their environment first; captures are declared as variables that
+     * refer into it, so the body reads and writes them like locals
+     */
+    private emitLiftedFunction(
+        node: ts.ArrowFunction | ts.FunctionExpression,
+        captures: Capture[],
+        envName: string | undefined,
+        isClosure: boolean,
+        signature: { returnType?: string; paramTypes: string[] } | undefined
+    ): { name: string; returnType: string; paramTypes: string[] } {
+        const name = `${this.currentModule}_lambda.${this.lambdaCounter++}`;
+
+        if (signature && signature.paramTypes.length !== node.parameters.length) {
+            throw new Error(`Arrow function ${name} should take ${signature.paramTypes.length} parameters`);
+        }
+        const params = node.parameters.map((param, i) => {
+            const paramName = param.name.getText(this.sourceFile);
+            if (!param.type && !signature) {
+                throw new Error(`Parameter '${paramName}' of an arrow function needs a type annotation`);
+            }
+            return { name: paramName, type: param.type ? this.resolveLLVMType(param.type) : signature!.paramTypes[i] };
+        });
+
+        // A block body needs its return type up front; an expression body can take its value's type
+        let returnType = node.type ? this.resolveLLVMType(node.type) : signature?.returnType;
+        if (!returnType && ts.isBlock(node.body)) {
+            returnType = TypeMapper.mapType(this.typeChecker.typeToString(
+                this.typeChecker.getSignatureFromDeclaration(node)!.getReturnType()
+            ));
+        }
+
+        // Suspend the enclosing function
+        const outerContext = this.context;
+        const outerReturnType = this.currentReturnType;
+        const outerJumpTargets = this.jumpTargets;
+        this.context = new Context(this.globalScope);
+        this.currentReturnType = returnType ?? "void";
+        this.jumpTargets = [];
+        this.emitter.beginLiftedFunction();
+        this.emitter.emitLabel("entry");
+
+        // Captured variables: constants are folded, others live in (or are pointed to by) the environment
+        if (envName) {
+            this.emitter.emitLine(`%.env.ptr = bitcast i8* %.env to %${envName}*`);
+        }
+        for (const capture of captures) {
+            const { variable } = capture;
+            if (variable.constantValue !== undefined) {
+                this.context.declareConstant(capture.name, variable.llvmType, variable.isUnsigned, variable.constantValue);
+                continue;
+            }
+
+            const field = this.structRegistry.getField(envName!, capture.name)!;
+            const declared = this.context.declareVariable(capture.name, variable.llvmType, variable.isUnsigned, !capture.byReference);
+            declared.stackStruct = variable.stackStruct;
+            if (capture.byReference) {
+                this.emitter.emitLine(`%${capture.name}.ref = getelementptr %${envName}, %${envName}* %.env.ptr, i32 0, i32 ${field.index}`);
+                this.emitter.emitLoad(declared.llvmName, field.type, `%${capture.name}.ref`);
+            } else {
+                this.emitter.emitLine(`${declared.llvmName} = getelementptr %${envName}, %${envName}* %.env.ptr, i32 0, i32 ${field.index}`);
+            }
+        }
+
+        // Parameters are stored in stack slots, as in regular functions
+        for (const param of params) {
+            const variable = this.context.declareVariable(param.name, param.type);
+            this.emitter.emitAlloca(variable.llvmName, param.type);
+            this.emitter.emitStore(param.type, `%${param.name}.param`, variable.llvmName);
+        }
+
+        if (ts.isBlock(node.body)) {
+            this.visitBlock(node.body);
+            this.emitter.emitLine(returnType === "void" ? "ret void" : "unreachable");
+        } else if (returnType === "void") {
+            this.visitExpression(node.body);
+            this.emitter.emitReturn("void", "");
+        } else {
+            const value = this.visitInitializer(node.body, returnType, true);
+            const result = returnType ? this.coerceValue(value, returnType) : value;
+            returnType = result.type;
+            this.emitter.emitReturn(result.type, result.value);
+        }
+        this.emitter.emitFunctionEnd();
+
+        const paramList = params.map(p => `${p.type} %${p.name}.param`);
+        if (isClosure) {
+            paramList.unshift("i8* %.env");
+        }
+        this.emitter.endLiftedFunction(`define internal ${returnType} @${name}(${paramList.join(", ")}) {`);
+
+        // Resume the enclosing function
+        this.context = outerContext;
+        this.currentReturnType = outerReturnType;
+        this.jumpTargets = outerJumpTargets;
+
+        return { name, returnType: returnType!, paramTypes: params.map(p => p.type) };
+    }
+
+    /**
+     * Convert a plain function pointer to a closure (add(a, b) passed as a Closure<...>)
+     * The function pointer itself is the environment; a thunk per signature calls through it
+     */
+    private wrapFunctionPointer(value: TypedValue, closureType: string): TypedValue {
+        const { returnType, paramTypes } = TypeMapper.parseClosureType(closureType);
+        const functionType = TypeMapper.getFunctionPointerType(returnType, paramTypes);
+        if (value.type !== functionType) {
+            throw new Error(`Cannot convert ${value.type} to ${closureType}`);
+        }
 
-            // 3. Look up the struct definition
-            const structDef = this.structRegistry.get(structType);
-            if (!structDef) {
-                throw new Error(`Unknown struct type: ${structType}`);
+        let thunk = this.closureThunks.get(functionType);
+        if (!thunk) {
+            thunk = `${this.currentModule}_thunk.${this.closureThunks.size}`;
+            this.closureThunks.set(functionType, thunk);
+
+            const params = paramTypes.map((type, i) => `${type} %arg${i}`);
+            this.emitter.beginLiftedFunction();
+            this.emitter.emitLabel("entry");
+            this.emitter.emitLine(`%fn = bitcast i8* %.env to ${functionType}`);
+            if (returnType === "void") {
+                this.emitter.emitIndirectCall(null, functionType.slice(0, -1), "%fn", params.join(", "));
+                this.emitter.emitReturn("void", "");
+            } else {
+                this.emitter.emitIndirectCall("%result", functionType.slice(0, -1), "%fn", params.join(", "));
+                this.emitter.emitReturn(returnType, "%result");
             }
+            this.emitter.emitFunctionEnd();
+            this.emitter.endLiftedFunction(`define internal ${returnType} @${thunk}(${["i8* %.env", ...params].join(", ")}) {`);
+        }
 
-            // 4. Find the field
-            const field = structDef.fields.find(f => f.name === fieldName);
-            if (!field) {
-                throw new Error(`Unknown field '${fieldName}' in struct '${structType}'`);
-            }
+        const envPtr = this.castValue(value, "i8*").value;
+        return this.makeClosure(`@${thunk}`, TypeMapper.getFunctionPointerType(returnType, ["i8*", ...paramTypes]), envPtr);
+    }
 
-            // 5. GEP to calculate field address
-            const fieldPtr = this.context.nextTemp();
-            const parentPtrType = parent.type.startsWith("%") ? `${parent.type}*` : `%${parent.type}*`;
-            this.emitter.emitLine(`${fieldPtr} = getelementptr %${structType}, ${parentPtrType} ${parent.ptr}, i32 0, i32 ${field.index}`);
+    /**
+     * Get the address of a field given a struct pointer value
+     */
+    private getFieldAddress(structPtr: TypedValue, fieldName: string): StorageAddress {
+        // 1. Get struct type name (e.g., "%Point*" -> "Point")
+        const structType = structPtr.type.replace(/^\%/, "").replace(/\*$/, "");
+
+        // 2. Look up the struct definition
+        const structDef = this.structRegistry.get(structType);
+        if (!structDef) {
+            throw new Error(`Unknown struct type: ${structType}`);
+        }
 
-            // 6. Return the field pointer and its type
-            // Keep the full type including trailing * for pointer fields
-            return { ptr: fieldPtr, type: field.type };
+        // 3. Find the field
+        const field = structDef.fields.find(f => f.name === fieldName);
+        if (!field) {
+            throw new Error(`Unknown field '${fieldName}' in struct '${structType}'`);
         }
 
-        throw new Error(`Cannot get storage address for: ${ts.SyntaxKind[node.kind]}`);
+        // 4. GEP to calculate field address
+        const fieldPtr = this.context.nextTemp();
+        this.emitter.emitLine(`${fieldPtr} = getelementptr %${structType}, ${structPtr.type} ${structPtr.value}, i32 0, i32 ${field.index}`);
+
+        // 5. Return the field pointer and its type
+        // Keep the full type including trailing * for pointer fields
+        return {
+            ptr: fieldPtr,
+            type: field.type,
+            unsigned: TypeMapper.isUnsigned(field.tsType),
+            isBoolean: TypeMapper.isBoolean(field.tsType),
+            align: structDef.isPacked ? 1 : undefined,
+        };
     }
 
     /**
      * Process a property access expression (obj.field or obj.nested.field)
      * Used for reading struct fields - supports nested access
      */
-    private visitPropertyAccessExpression(node: ts.PropertyAccessExpression): string {
-        // Get the storage address using recursive helper
-        const addr = this.getStorageAddress(node);
-
-        // Load the value from that address
-        const result = this.context.nextTemp();
-        const ptrType = addr.type.endsWith("*") ? addr.type : `${addr.type}*`;
-        this.emitter.emitLine(`${result} = load ${addr.type}, ${ptrType} ${addr.ptr}`);
-
-        return result;
+    private visitPropertyAccessExpression(node: ts.PropertyAccessExpression): TypedValue {
+        // Get the storage address using recursive helper, then load from it
+        return this.loadFromAddress(this.getStorageAddress(node, false));
     }
 
     /**
      * Process an element access expression (array[index])
-     * 
+     *
      * For reading: arr[i] loads the value at that index
      * Uses getelementptr to compute the address, then load
      */
-    private visitElementAccessExpression(node: ts.ElementAccessExpression): string {
-        // Get the array base pointer
-        const arrayExpr = node.expression;
-        let basePtr: string;
-        let baseType = "i32";  // Default element type
+    private visitElementAccessExpression(node: ts.ElementAccessExpression): TypedValue {
+        return this.loadFromAddress(this.getElementPointer(node));
+    }
 
-        if (ts.isIdentifier(arrayExpr)) {
-            const name = arrayExpr.getText(this.sourceFile);
-            const variable = this.context.lookupVariable(name);
-            if (!variable) {
-                throw new Error(`Undefined variable: ${name}`);
-            }
-            // Load the pointer value from the variable
-            basePtr = this.context.nextTemp();
-            this.emitter.emitLoad(basePtr, variable.llvmType, variable.llvmName);
+    /**
+     * Load the value stored at an address (booleans are truncated back to i1)
+     */
+    private loadFromAddress(addr: StorageAddress): TypedValue {
+        // An inline struct is used through its address, like any other struct value
+        if (this.isInlineStructType(addr.type)) {
+            return { value: addr.ptr, type: `${addr.type}*` };
+        }
 
-            // Extract element type from pointer type (e.g., "i32*" -> "i32")
-            if (variable.llvmType.endsWith("*")) {
-                baseType = variable.llvmType.slice(0, -1);
-            }
-        } else {
-            basePtr = this.visitExpression(arrayExpr);
+        const resultReg = this.context.nextTemp();
+        this.emitter.emitLoad(resultReg, addr.type, addr.ptr, addr.align);
+
+        if (addr.isBoolean) {
+            const boolReg = this.context.nextTemp();
+            this.emitter.emitCast(boolReg, "trunc", addr.type, resultReg, "i1");
+            return { value: boolReg, type: "i1" };
         }
 
-        // Get the index
-        if (!node.argumentExpression) {
-            throw new Error("Array access requires an index");
+        return { value: resultReg, type: addr.type, unsigned: addr.unsigned };
+    }
+
+    /**
+     * Store a value at an address, converting it to the stored type
+     * Returns the value as seen by the program (i1 for booleans)
+     */
+    private storeToAddress(addr: StorageAddress, value: TypedValue): TypedValue {
+        if (addr.isBoolean) {
+            const boolValue = this.coerceValue(value, "i1");
+            const stored = this.castValue(boolValue, addr.type, true);
+            this.emitter.emitStore(addr.type, stored.value, addr.ptr, addr.align);
+            return boolValue;
         }
-        const index = this.visitExpression(node.argumentExpression);
 
-        // Compute element address using getelementptr
-        const elemPtr = this.context.nextTemp();
-        this.emitter.emitLine(`${elemPtr} = getelementptr ${baseType}, ${baseType}* ${basePtr}, i32 ${index}`);
+        // Assigning to an inline struct copies the pointed-to struct into it
+        if (this.isInlineStructType(addr.type)) {
+            const source = this.coerceValue(value, `${addr.type}*`);
+            const copyReg = this.context.nextTemp();
+            this.emitter.emitLoad(copyReg, addr.type, source.value);
+            this.emitter.emitStore(addr.type, copyReg, addr.ptr, addr.align);
+            return { value: addr.ptr, type: source.type };
+        }
 
-        // Load the value at that address
-        const resultReg = this.context.nextTemp();
-        this.emitter.emitLoad(resultReg, baseType, elemPtr);
+        const converted = this.coerceValue(value, addr.type, addr.unsigned);
+        this.emitter.emitStore(addr.type, converted.value, addr.ptr, addr.align);
+        return converted;
+    }
 
-        return resultReg;
+    /**
+     * Check if a stored type is a struct laid out by value (an Inline<T> field)
+     */
+    private isInlineStructType(llvmType: string): boolean {
+        return llvmType.startsWith("%") && !llvmType.endsWith("*");
     }
 
     /**
      * Get the element pointer for an array access (for assignment)
      */
-    private getElementPointer(node: ts.ElementAccessExpression): { ptr: string; type: string } {
-        const arrayExpr = node.expression;
-        let basePtr: string;
-        let baseType = "i32";
-
-        if (ts.isIdentifier(arrayExpr)) {
-            const name = arrayExpr.getText(this.sourceFile);
-            const variable = this.context.lookupVariable(name);
-            if (!variable) {
-                throw new Error(`Undefined variable: ${name}`);
-            }
-            basePtr = this.context.nextTemp();
-            this.emitter.emitLoad(basePtr, variable.llvmType, variable.llvmName);
-
-            if (variable.llvmType.endsWith("*")) {
-                baseType = variable.llvmType.slice(0, -1);
-            }
-        } else {
-            basePtr = this.visitExpression(arrayExpr);
+    private getElementPointer(node: ts.ElementAccessExpression): StorageAddress {
+        // Get the array base pointer (e.g., "i32*" -> element type "i32")
+        this.checkNotNull(node.expression);
+        const base = this.visitExpression(node.expression);
+        if (!base.type.endsWith("*")) {
+            throw new Error(`Cannot index into non-pointer type: ${base.type}`);
         }
+        const elemType = base.type.slice(0, -1);
 
         if (!node.argumentExpression) {
             throw new Error("Array access requires an index");
@@ -998,127 +3479,418 @@ export class ASTWalker {
         const index = this.visitExpression(node.argumentExpression);
 
         const elemPtr = this.context.nextTemp();
-        this.emitter.emitLine(`${elemPtr} = getelementptr ${baseType}, ${baseType}* ${basePtr}, i32 ${index}`);
+        this.emitter.emitLine(`${elemPtr} = getelementptr ${elemType}, ${base.type} ${base.value}, ${index.type} ${index.value}`);
+
+        // boolean[] elements are bytes; the checker tells them apart from i8[]
+        const isBoolean = elemType === "i8" &&
+            (this.typeChecker.getTypeAtLocation(node).flags & ts.TypeFlags.BooleanLike) !== 0;
 
-        return { ptr: elemPtr, type: baseType };
+        return { ptr: elemPtr, type: elemType, unsigned: base.unsigned, isBoolean };
     }
 
 
     /**
      * Process an identifier (variable reference)
      */
-    private visitIdentifier(node: ts.Identifier): string {
+    private visitIdentifier(node: ts.Identifier): TypedValue {
         const name = node.getText(this.sourceFile);
         const variable = this.context.lookupVariable(name);
 
+        // A function name used as a value is a pointer to the function
+        if (!variable) {
+            const resolved = this.lookupFunction(name);
+            if (!resolved) {
+                throw new Error(`Undefined variable: ${name}`);
+            }
+            const { resolvedName, funcInfo, isVariadic } = resolved;
+            const paramTypes = funcInfo.params.map(p => p.type);
+            return { value: `@${resolvedName}`, type: TypeMapper.getFunctionPointerType(funcInfo.returnType, paramTypes, isVariadic) };
+        }
+
+        // Numeric constants are used directly
+        if (variable.constantValue !== undefined) {
+            return { value: variable.constantValue, type: variable.llvmType, unsigned: variable.isUnsigned };
+        }
+
+        // Load the value from the variable's stack slot (or global)
+        return this.loadFromAddress({ ptr: variable.llvmName, type: variable.llvmType, unsigned: variable.isUnsigned });
+    }
+
+    /**
+     * Load the current value of a local variable or parameter by name
+     */
+    private loadVariable(name: string): TypedValue {
+        const variable = this.context.lookupVariable(name)!;
+        return this.loadFromAddress({ ptr: variable.llvmName, type: variable.llvmType, unsigned: variable.isUnsigned });
+    }
+
+    /**
+     * Process the "super" keyword (super.method() in a derived class): "this" as its base class
+     */
+    private visitSuperKeyword(): TypedValue {
+        const baseClass = this.currentClass ? this.structRegistry.get(this.currentClass.name)!.baseName : undefined;
+        if (!baseClass) {
+            throw new Error(`'super' used outside of a derived class`);
+        }
+        return this.castValue(this.visitThisKeyword(), `%${baseClass}*`);
+    }
+
+    /**
+     * Process the "this" keyword (method context)
+     */
+    private visitThisKeyword(): TypedValue {
+        const variable = this.context.lookupVariable("this");
+
         if (!variable) {
-            throw new Error(`Undefined variable: ${name}`);
+            throw new Error(`'this' used outside of method context`);
         }
 
-        // Load the value from the stack-allocated variable
         const tempReg = this.context.nextTemp();
         this.emitter.emitLoad(tempReg, variable.llvmType, variable.llvmName);
-        return tempReg;
+        return { value: tempReg, type: variable.llvmType };
     }
 
     /**
      * Process a binary expression (a + b, x * y, etc.)
      */
-    private visitBinaryExpression(node: ts.BinaryExpression): string {
-        const left = this.visitExpression(node.left);
-        const right = this.visitExpression(node.right);
-
+    private visitBinaryExpression(node: ts.BinaryExpression): TypedValue {
         const operatorToken = node.operatorToken.kind;
-        const resultReg = this.context.nextTemp();
-
-        // Determine type (for now, default to i32)
-        const llvmType = "i32";
 
         // Handle assignment
         if (operatorToken === ts.SyntaxKind.EqualsToken) {
             return this.visitAssignment(node);
         }
 
-        // Handle arithmetic operators
+        // Handle compound assignment (x += v, arr[i] <<= 2, ...)
+        const compoundOp = this.getCompoundOperatorString(operatorToken);
+        if (compoundOp) {
+            return this.visitCompoundAssignment(node, compoundOp);
+        }
+
+        // Handle short-circuit logical operators
+        if (operatorToken === ts.SyntaxKind.AmpersandAmpersandToken ||
+            operatorToken === ts.SyntaxKind.BarBarToken) {
+            return this.visitLogicalExpression(node);
+        }
+
+        const left = this.visitExpression(node.left);
+        const right = this.visitExpression(node.right);
         const op = this.getOperatorString(operatorToken);
 
         if (this.isComparisonOperator(operatorToken)) {
-            const { instruction, predicate } = TypeMapper.getCompareOp(op, llvmType);
-            this.emitter.emitLine(`${resultReg} = ${instruction} ${predicate} ${llvmType} ${left}, ${right}`);
-        } else {
-            const llvmOp = TypeMapper.getBinaryOp(op, llvmType);
-            this.emitter.emitBinaryOp(resultReg, llvmOp, llvmType, left, right);
+            const [l, r] = this.unifyOperands(left, right);
+            if (l.unsigned) {
+                this.checkUnsignedComparison(left, right, l.type);
+            }
+            const resultReg = this.context.nextTemp();
+            const { instruction, predicate } = TypeMapper.getCompareOp(op, l.type, l.unsigned);
+            this.emitter.emitLine(`${resultReg} = ${instruction} ${predicate} ${l.type} ${l.value}, ${r.value}`);
+            return { value: resultReg, type: "i1" };
         }
 
-        return resultReg;
+        // Handle arithmetic operators
+        return this.emitArithmetic(op, left, right);
     }
 
     /**
-     * Process an assignment expression
+     * Reject comparing an unsigned value with a negative constant: the constant would be
+     * converted to a large unsigned value (u32 x > -1 is always false)
+     */
+    private checkUnsignedComparison(left: TypedValue, right: TypedValue, type: string): void {
+        const negative = [left, right].find(operand =>
+            this.isImmediate(operand.value) && TypeMapper.isInteger(operand.type) && this.getImmediateNumber(operand) < 0);
+        if (negative) {
+            const typeName = `u${TypeMapper.getIntegerBits(type)}`;
+            throw new Error(`Cannot compare an unsigned ${typeName} with the negative constant ${negative.value}; use an explicit 'as' cast`);
+        }
+    }
+
+    /**
+     * Emit an arithmetic, bitwise or shift operation on two operands
      */
-    private visitAssignment(node: ts.BinaryExpression): string {
-        const value = this.visitExpression(node.right);
+    private emitArithmetic(op: string, left: TypedValue, right: TypedValue): TypedValue {
+        this.checkArithmeticOperands(op, left, right);
+        const [l, r] = this.unifyOperands(left, right);
+        const resultReg = this.context.nextTemp();
+        const llvmOp = TypeMapper.getBinaryOp(op, l.type, l.unsigned);
+        this.emitter.emitBinaryOp(resultReg, llvmOp, l.type, l.value, r.value);
+        return { value: resultReg, type: l.type, unsigned: l.unsigned };
+    }
 
-        // Handle array element assignment: arr[i] = value
-        if (ts.isElementAccessExpression(node.left)) {
-            const { ptr, type } = this.getElementPointer(node.left);
-            this.emitter.emitStore(type, value, ptr);
-            return value;
+    /**
+     * Reject an arithmetic, bitwise or shift operator applied to a boolean (b + 1, b++, -b):
+     * booleans are not integers and need an explicit "as" to be used as one
+     */
+    private checkArithmeticOperands(op: string, ...operands: TypedValue[]): void {
+        if (operands.some(operand => operand.type === "i1")) {
+            throw new Error(`Operator '${op}' cannot be applied to a boolean; use an explicit 'as' cast`);
         }
+    }
 
-        // Handle struct field assignment: obj.field = value (supports nesting)
-        if (ts.isPropertyAccessExpression(node.left)) {
-            // Use the recursive getStorageAddress helper
-            const addr = this.getStorageAddress(node.left);
-            const ptrType = addr.type.endsWith("*") ? addr.type : `${addr.type}*`;
-
-            // Special handling for malloc: need to cast i32* to struct pointer type
-            // Check if target is a struct pointer field
-            if (addr.type.startsWith("%")) {
-                // Target is a struct or struct pointer field
-                // malloc returns i32*, need to bitcast to correct type
-                const castedReg = this.context.nextTemp();
-                this.emitter.emitBitcast(castedReg, "i32*", value, ptrType);
-                // Store with the casted pointer type, not the base type
-                this.emitter.emitLine(`store ${ptrType} ${castedReg}, ${ptrType}* ${addr.ptr}`);
-            } else {
-                this.emitter.emitLine(`store ${addr.type} ${value}, ${ptrType} ${addr.ptr}`);
+    /**
+     * Compute an arithmetic operation on two constants of the same type
+     * Integer results wrap around to the type's width like the LLVM instruction would
+     */
+    private foldArithmetic(op: string, l: TypedValue, r: TypedValue): TypedValue {
+        if (TypeMapper.isFloat(l.type)) {
+            const a = this.getImmediateNumber(l);
+            const b = this.getImmediateNumber(r);
+            const results: Record<string, number> = { "+": a + b, "-": a - b, "*": a * b, "/": a / b, "%": a % b };
+            if (!(op in results)) {
+                // Reuse the operator check (e.g., bitwise operators on floats)
+                TypeMapper.getBinaryOp(op, l.type);
+                throw new Error(`Unsupported constant operator: ${op}`);
             }
-            return value;
+            return { value: TypeMapper.formatFloatConstant(results[op], l.type), type: l.type };
         }
 
-        // Handle identifier assignment: x = value
-        if (ts.isIdentifier(node.left)) {
-            const name = node.left.getText(this.sourceFile);
-            const variable = this.context.lookupVariable(name);
+        const bits = TypeMapper.getIntegerBits(l.type);
+        const unsigned = this.isUnsignedOperation(l, r, l.type);
+        const wrap = (v: bigint) => unsigned ? BigInt.asUintN(bits, v) : BigInt.asIntN(bits, v);
+        const a = wrap(this.getImmediateBigInt(l));
+        const b = wrap(this.getImmediateBigInt(r));
 
-            if (!variable) {
-                throw new Error(`Undefined variable: ${name}`);
-            }
+        if ((op === "/" || op === "%") && b === 0n) {
+            throw new Error("Division by zero in constant expression");
+        }
+        if ((op === "<<" || op === ">>" || op === ">>>") && (b < 0n || b >= BigInt(bits))) {
+            throw new Error(`Shift amount ${b} is out of range for ${l.type}`);
+        }
 
-            this.emitter.emitStore(variable.llvmType, value, variable.llvmName);
-            return value;
+        let result: bigint;
+        switch (op) {
+            case "+": result = a + b; break;
+            case "-": result = a - b; break;
+            case "*": result = a * b; break;
+            case "/": result = a / b; break;
+            case "%": result = a % b; break;
+            case "&": result = a & b; break;
+            case "|": result = a | b; break;
+            case "^": result = a ^ b; break;
+            case "<<": result = a << b; break;
+            case ">>": result = a >> b; break;
+            case ">>>": result = BigInt.asUintN(bits, a) >> b; break;
+            default:
+                throw new Error(`Unsupported constant operator: ${op}`);
+        }
+
+        const folded = wrap(result);
+        if (l.type === "i1") {
+            return { value: folded !== 0n ? "true" : "false", type: "i1" };
+        }
+        return { value: folded.toString(), type: l.type, unsigned };
+    }
+
+    /**
+     * Process a short-circuit logical expression (a && b, a || b)
+     * The right operand is only evaluated when it can change the result.
+     *
+     * Generates (for &&):
+     *   %l = <left>
+     *   br i1 %l, label %and.rhs, label %and.end
+     * and.rhs:
+     *   %r = <right>
+     *   br label %and.end
+     * and.end:
+     *   %result = phi i1 [ false, %<left block> ], [ %r, %<right block> ]
+     */
+    private visitLogicalExpression(node: ts.BinaryExpression): TypedValue {
+        const isAnd = node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken;
+        const rhsLabel = this.context.nextLabel(isAnd ? "and.rhs" : "or.rhs");
+        const endLabel = this.context.nextLabel(isAnd ? "and.end" : "or.end");
+
+        // Left operand decides whether the right one runs
+        const left = this.ensureBooleanCondition(this.visitExpression(node.left));
+        const leftBlock = this.emitter.getCurrentBlock();
+        if (isAnd) {
+            this.emitter.emitConditionalBranch(left, rhsLabel, endLabel);
+        } else {
+            this.emitter.emitConditionalBranch(left, endLabel, rhsLabel);
+        }
+
+        // Right operand (may itself contain branches, so re-read the current block)
+        this.emitter.emitLabel(rhsLabel);
+        const right = this.ensureBooleanCondition(this.visitExpression(node.right));
+        const rightBlock = this.emitter.getCurrentBlock();
+        this.emitter.emitBranch(endLabel);
+
+        // Merge: short-circuited path yields false (&&) or true (||)
+        this.emitter.emitLabel(endLabel);
+        const resultReg = this.context.nextTemp();
+        this.emitter.emitPhi(resultReg, "i1", [
+            { value: isAnd ? "false" : "true", label: leftBlock },
+            { value: right, label: rightBlock },
+        ]);
+        return { value: resultReg, type: "i1" };
+    }
+
+    /**
+     * Process a conditional expression (c ? a : b)
+     * Only the selected branch is evaluated. Both results are converted to a
+     * common type in per-branch blocks emitted once both types are known.
+     *
+     * Generates:
+     *   br i1 %c, label %cond.true, label %cond.false
+     * cond.true:
+     *   %a = <whenTrue>
+     *   br label %cond.true.conv
+     * cond.false:
+     *   %b = <whenFalse>
+     *   br label %cond.false.conv
+     * cond.true.conv:
+     *   <convert %a>
+     *   br label %cond.end
+     * cond.false.conv:
+     *   <convert %b>
+     *   br label %cond.end
+     * cond.end:
+     *   %result = phi <type> [ %a', %cond.true.conv ], [ %b', %cond.false.conv ]
+     */
+    private visitConditionalExpression(node: ts.ConditionalExpression): TypedValue {
+        const trueLabel = this.context.nextLabel("cond.true");
+        const falseLabel = this.context.nextLabel("cond.false");
+        const trueConvLabel = this.context.nextLabel("cond.true.conv");
+        const falseConvLabel = this.context.nextLabel("cond.false.conv");
+        const endLabel = this.context.nextLabel("cond.end");
+
+        const condReg = this.ensureBooleanCondition(this.visitExpression(node.condition));
+        this.emitter.emitConditionalBranch(condReg, trueLabel, falseLabel);
+
+        this.emitter.emitLabel(trueLabel);
+        const whenTrue = this.visitExpression(node.whenTrue);
+        this.emitter.emitBranch(trueConvLabel);
+
+        this.emitter.emitLabel(falseLabel);
+        const whenFalse = this.visitExpression(node.whenFalse);
+        this.emitter.emitBranch(falseConvLabel);
+
+        if (whenTrue.type === "void" || whenFalse.type === "void") {
+            throw new Error("Conditional expression branches must produce a value");
         }
 
-        throw new Error("Assignment target must be an identifier, array element, or struct field");
+        const type = this.getCommonType(whenTrue, whenFalse);
+        const unsigned = this.isUnsignedOperation(whenTrue, whenFalse, type);
+
+        this.emitter.emitLabel(trueConvLabel);
+        const trueValue = this.coerceValue(whenTrue, type);
+        this.emitter.emitBranch(endLabel);
+
+        this.emitter.emitLabel(falseConvLabel);
+        const falseValue = this.coerceValue(whenFalse, type);
+        this.emitter.emitBranch(endLabel);
+
+        this.emitter.emitLabel(endLabel);
+        const resultReg = this.context.nextTemp();
+        this.emitter.emitPhi(resultReg, type, [
+            { value: trueValue.value, label: trueConvLabel },
+            { value: falseValue.value, label: falseConvLabel },
+        ]);
+        return { value: resultReg, type, unsigned };
+    }
+
+    /**
+     * Process an assignment expression
+     * Targets: identifiers (x = v), struct fields (obj.field = v), array elements (arr[i] = v)
+     */
+    private visitAssignment(node: ts.BinaryExpression): TypedValue {
+        if (!ts.isIdentifier(node.left) &&
+            !ts.isPropertyAccessExpression(node.left) &&
+            !ts.isElementAccessExpression(node.left)) {
+            throw new Error("Assignment target must be an identifier, array element, or struct field");
+        }
+
+        const addr = this.getStorageAddress(node.left);
+
+        // An object literal assigned to an inline struct overwrites its fields in place;
+        // nested structs live on the stack only if the target does (an Inline<T> local)
+        if (ts.isObjectLiteralExpression(node.right) && this.isInlineStructType(addr.type)) {
+            const onStack = this.getStackStruct(node.left) !== undefined;
+            this.emitObjectLiteral(node.right, addr.type.slice(1), addr.ptr, onStack);
+            return { value: addr.ptr, type: `${addr.type}*` };
+        }
+
+        // Copying into an inline struct is always safe; storing a pointer must not outlive its target
+        if (!this.isInlineStructType(addr.type)) {
+            this.checkStackEscape(node.left, node.right);
+        }
+
+        // Convert to the target's type (e.g., malloc's i32* to a struct pointer field);
+        // a closure stored anywhere but a local variable outlives this call
+        const isLocal = ts.isIdentifier(node.left) && !addr.ptr.startsWith("@");
+        return this.storeToAddress(addr, this.visitInitializer(node.right, addr.type, !isLocal));
+    }
+
+    /**
+     * Process a compound assignment: target op= value
+     * The target address is computed once; as in C, the result is converted
+     * back to the target's type (target = (T)(target op value))
+     */
+    private visitCompoundAssignment(node: ts.BinaryExpression, op: string): TypedValue {
+        const addr = this.getStorageAddress(node.left);
+        const current = this.loadFromAddress(addr);
+
+        const result = this.emitArithmetic(op, current, this.visitExpression(node.right));
+        return this.storeToAddress(addr, this.castValue(result, current.type, current.unsigned));
+    }
+
+    /**
+     * Process an increment or decrement (++x, x++, --x, x--)
+     * Prefix forms yield the updated value, postfix forms the original one
+     */
+    private visitIncrementDecrement(operand: ts.Expression, operator: ts.SyntaxKind, isPrefix: boolean): TypedValue {
+        const addr = this.getStorageAddress(operand);
+        const oldValue = this.loadFromAddress(addr);
+
+        // As with compound assignment, the (promoted) result is converted back to the target's type
+        const op = operator === ts.SyntaxKind.PlusPlusToken ? "+" : "-";
+        const result = this.emitArithmetic(op, oldValue, { value: "1", type: "i32" });
+        const newValue = this.storeToAddress(addr, this.castValue(result, oldValue.type, oldValue.unsigned));
+
+        return isPrefix ? newValue : oldValue;
+    }
+
+    /**
+     * Process a postfix unary expression (x++, x--)
+     */
+    private visitPostfixUnaryExpression(node: ts.PostfixUnaryExpression): TypedValue {
+        return this.visitIncrementDecrement(node.operand, node.operator, false);
     }
 
     /**
-     * Process a prefix unary expression (-x, !x)
+     * Process a prefix unary expression (-x, !x, ~x, ++x, --x)
      */
-    private visitPrefixUnaryExpression(node: ts.PrefixUnaryExpression): string {
+    private visitPrefixUnaryExpression(node: ts.PrefixUnaryExpression): TypedValue {
+        if (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken) {
+            return this.visitIncrementDecrement(node.operand, node.operator, true);
+        }
+
         const operand = this.visitExpression(node.operand);
         const resultReg = this.context.nextTemp();
 
         switch (node.operator) {
             case ts.SyntaxKind.MinusToken:
-                // Negate: 0 - x
-                this.emitter.emitBinaryOp(resultReg, "sub", "i32", "0", operand);
-                return resultReg;
-            case ts.SyntaxKind.ExclamationToken:
-                // Logical not: x == 0
-                this.emitter.emitLine(`${resultReg} = icmp eq i32 ${operand}, 0`);
-                return resultReg;
+                this.checkArithmeticOperands("-", operand);
+                if (TypeMapper.isFloat(operand.type)) {
+                    this.emitter.emitLine(`${resultReg} = fneg ${operand.type} ${operand.value}`);
+                } else {
+                    // Negate: 0 - x
+                    this.emitter.emitBinaryOp(resultReg, "sub", operand.type, "0", operand.value);
+                }
+                return { value: resultReg, type: operand.type, unsigned: operand.unsigned };
+            case ts.SyntaxKind.ExclamationToken: {
+                // Logical not: invert the operand's truth value
+                const condReg = this.ensureBooleanCondition(operand);
+                this.emitter.emitLine(`${resultReg} = xor i1 ${condReg}, true`);
+                return { value: resultReg, type: "i1" };
+            }
+            case ts.SyntaxKind.TildeToken:
+                if (!TypeMapper.isInteger(operand.type)) {
+                    throw new Error(`Operator '~' requires an integer operand, got ${operand.type}`);
+                }
+                this.checkArithmeticOperands("~", operand);
+                // Bitwise not: x ^ -1
+                this.emitter.emitBinaryOp(resultReg, "xor", operand.type, operand.value, "-1");
+                return { value: resultReg, type: operand.type, unsigned: operand.unsigned };
             default:
                 throw new Error(`Unsupported prefix operator: ${ts.SyntaxKind[node.operator]}`);
         }
@@ -1142,11 +3914,37 @@ export class ASTWalker {
             case ts.SyntaxKind.EqualsEqualsEqualsToken: return "===";
             case ts.SyntaxKind.ExclamationEqualsToken: return "!=";
             case ts.SyntaxKind.ExclamationEqualsEqualsToken: return "!==";
+            case ts.SyntaxKind.AmpersandToken: return "&";
+            case ts.SyntaxKind.BarToken: return "|";
+            case ts.SyntaxKind.CaretToken: return "^";
+            case ts.SyntaxKind.LessThanLessThanToken: return "<<";
+            case ts.SyntaxKind.GreaterThanGreaterThanToken: return ">>";
+            case ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken: return ">>>";
             default:
                 throw new Error(`Unknown operator: ${ts.SyntaxKind[kind]}`);
         }
     }
 
+    /**
+     * Get the arithmetic operator of a compound assignment (e.g., += -> +)
+     */
+    private getCompoundOperatorString(kind: ts.SyntaxKind): string | undefined {
+        switch (kind) {
+            case ts.SyntaxKind.PlusEqualsToken: return "+";
+            case ts.SyntaxKind.MinusEqualsToken: return "-";
+            case ts.SyntaxKind.AsteriskEqualsToken: return "*";
+            case ts.SyntaxKind.SlashEqualsToken: return "/";
+            case ts.SyntaxKind.PercentEqualsToken: return "%";
+            case ts.SyntaxKind.AmpersandEqualsToken: return "&";
+            case ts.SyntaxKind.BarEqualsToken: return "|";
+            case ts.SyntaxKind.CaretEqualsToken: return "^";
+            case ts.SyntaxKind.LessThanLessThanEqualsToken: return "<<";
+            case ts.SyntaxKind.GreaterThanGreaterThanEqualsToken: return ">>";
+            case ts.SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken: return ">>>";
+            default: return undefined;
+        }
+    }
+
     /**
      * Check if an operator is a comparison operator
      */
@@ -1166,7 +3964,7 @@ export class ASTWalker {
     /**
      * Get the return type of a function
      */
-    private getReturnType(node: ts.FunctionDeclaration): string {
+    private getReturnType(node: ts.SignatureDeclaration): string {
         if (node.type) {
             return node.type.getText(this.sourceFile);
         }
@@ -1200,18 +3998,149 @@ export class ASTWalker {
             return parsed.text;
         }
 
-        // Get the mangled name (e.g., Box<number> -> Box_i32)
-        const mangledName = this.typeResolver.getMangledName(parsed, TypeMapper.mapType);
+        // Get the mangled name (e.g., Box<number> -> Box_i32), instantiating it if needed
+        return this.resolveTypeArgument(parsed, {});
+    }
+
+    /**
+     * Resolve a type annotation to its LLVM type
+     * Struct types (including instantiated generics) become struct pointers
+     */
+    private resolveLLVMType(typeNode: ts.TypeNode): string {
+        // Arrays are pointers to their element type (e.g., Point[] -> %Point**)
+        if (ts.isArrayTypeNode(typeNode)) {
+            return `${TypeMapper.getStorageType(this.resolveLLVMType(typeNode.elementType))}*`;
+        }
+
+        if (ts.isParenthesizedTypeNode(typeNode)) {
+            return this.resolveLLVMType(typeNode.type);
+        }
 
-        // Check if already instantiated
-        if (this.structRegistry.isStruct(mangledName)) {
-            return mangledName;
+        // Closure<(dt: f64) => void> is a fat pointer: lifted function plus environment
+        if (ts.isTypeReferenceNode(typeNode) && typeNode.typeName.getText(this.sourceFile) === "Closure") {
+            const functionType = typeNode.typeArguments?.[0];
+            if (!functionType || !ts.isFunctionTypeNode(functionType)) {
+                throw new Error(`Closure<F> takes a function type: ${typeNode.getText(this.sourceFile)}`);
+            }
+            const { returnType, paramTypes } = TypeMapper.parseFunctionPointerType(this.resolveLLVMType(functionType));
+            return TypeMapper.getClosureType(returnType, paramTypes);
         }
 
-        // Need to instantiate this generic
-        this.instantiateGeneric(parsed.baseName, mangledName, parsed);
+        // Function types are function pointers ((a: i32, b: i32) => i32 -> i32 (i32, i32)*)
+        if (ts.isFunctionTypeNode(typeNode)) {
+            const fixedParams = typeNode.parameters.filter(p => !p.dotDotDotToken);
+            const paramTypes = fixedParams.map(p => p.type ? this.resolveLLVMType(p.type) : "i32");
+            const isVariadic = fixedParams.length < typeNode.parameters.length;
+            return TypeMapper.getFunctionPointerType(this.resolveLLVMType(typeNode.type), paramTypes, isVariadic);
+        }
 
-        return mangledName;
+        // Nullable pointers (Node | null) are represented like the pointer itself
+        if (ts.isUnionTypeNode(typeNode)) {
+            const llvmType = this.resolveLLVMType(this.getNonNullTypeNode(typeNode));
+            if (!llvmType.endsWith("*")) {
+                throw new Error(`Only pointer types can be nullable: ${typeNode.getText()}`);
+            }
+            return llvmType;
+        }
+
+        const typeName = this.resolveTypeName(typeNode);
+
+        if (this.structRegistry.isStruct(typeName)) {
+            return `%${typeName}*`;
+        }
+        if (this.enumRegistry.isEnum(typeName)) {
+            return "i32";
+        }
+
+        return TypeMapper.mapType(typeName);
+    }
+
+    /**
+     * Get the non-null member of a nullable type (Node | null -> Node)
+     * Other union types are not supported
+     */
+    private getNonNullTypeNode(typeNode: ts.TypeNode): ts.TypeNode {
+        if (!ts.isUnionTypeNode(typeNode)) {
+            return typeNode;
+        }
+
+        const members = typeNode.types.filter(t =>
+            !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword) &&
+            t.kind !== ts.SyntaxKind.UndefinedKeyword
+        );
+        if (members.length !== 1 || members.length === typeNode.types.length) {
+            throw new Error(`Union types are only supported as nullable pointers (T | null): ${typeNode.getText()}`);
+        }
+        return members[0];
+    }
+
+    /**
+     * Reject dereferencing a possibly-null value (Node | null, or an optional property)
+     * The type checker narrows the type after a null check: if (p !== null) { p.value }
+     */
+    private checkNotNull(node: ts.Expression): void {
+        if (this.isNullableType(this.typeChecker.getTypeAtLocation(node))) {
+            const text = node.getText(this.sourceFile);
+            throw new Error(`'${text}' may be null; check it first, e.g. if (${text} != null) { ... }`);
+        }
+    }
+
+    /**
+     * Reject a possibly-null value where a non-nullable type is expected: a local, parameter,
+     * field, return value or assignment typed Node rather than Node | null (let m: Node = n, g(null))
+     * The expected type comes from the expression's context; a null check narrows the value
+     */
+    private checkNullAssignment(node: ts.Expression): void {
+        const targetType = this.typeChecker.getContextualType(node);
+        const isOpen = (t: ts.Type) => (t.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter)) !== 0;
+        if (!targetType || isOpen(targetType) || this.isNullableType(targetType)) {
+            return;
+        }
+
+        if (this.isNullableType(this.typeChecker.getTypeAtLocation(node))) {
+            const text = node.getText(this.sourceFile);
+            const target = this.typeChecker.typeToString(targetType);
+            throw new Error(
+                this.isNullLiteral(node)
+                    ? `Cannot use ${text} as ${target}; declare the type as ${target} | null`
+                    : `'${text}' may be null, but ${target} is not nullable; check it first, e.g. if (${text} != null) { ... }`
+            );
+        }
+    }
+
+    /**
+     * Check if a type includes null or undefined (Node | null, or an optional property)
+     */
+    private isNullableType(type: ts.Type): boolean {
+        const isNullish = (t: ts.Type) => (t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)) !== 0;
+        return type.isUnion() ? type.types.some(isNullish) : isNullish(type);
+    }
+
+    /**
+     * Check if an expression is the null pointer literal (null or undefined)
+     */
+    private isNullLiteral(node: ts.Expression): boolean {
+        return node.kind === ts.SyntaxKind.NullKeyword || (ts.isIdentifier(node) && node.text === "undefined");
+    }
+
+    /**
+     * Get the LLVM type of a node from the type checker (for unannotated declarations)
+     * Nullable types (Node | null) have the LLVM type of the pointer
+     */
+    private getExpressionType(node: ts.Node): string {
+        const type = this.typeChecker.getBaseTypeOfLiteralType(
+            this.typeChecker.getNonNullableType(this.typeChecker.getTypeAtLocation(node))
+        );
+        const typeName = this.typeChecker.typeToString(type);
+
+        if (this.structRegistry.isStruct(typeName)) {
+            return `%${typeName}*`;
+        }
+        if (this.enumRegistry.isEnum(typeName)) {
+            return "i32";
+        }
+
+        return TypeMapper.mapType(typeName);
     }
 
     /**
@@ -1223,6 +4152,33 @@ export class ASTWalker {
         mangledName: string,
         parsed: ParsedTypeReference
     ): void {
+        // Type arguments become mangled type names; nested generics are instantiated first
+        const typeArgs = parsed.typeArgs.map(typeArg => this.resolveTypeArgument(typeArg, {}));
+        this.instantiateGenericWithArgs(baseName, mangledName, typeArgs);
+    }
+
+    /**
+     * Get the mangled name of a type reference inside a generic blueprint, substituting
+     * type parameters (e.g., Box<T> with T = i32 -> Box_i32) and instantiating generics it uses
+     */
+    private resolveTypeArgument(parsed: ParsedTypeReference, typeSubst: Record<string, string>): string {
+        if (!parsed.isGeneric) {
+            return typeSubst[parsed.text] ?? TypeMapper.getMangledTypeName(parsed.text);
+        }
+
+        const typeArgs = parsed.typeArgs.map(typeArg => this.resolveTypeArgument(typeArg, typeSubst));
+        const mangledName = [parsed.baseName, ...typeArgs].join("_");
+
+        if (this.genericRegistry.isGenericInterface(parsed.baseName) && !this.structRegistry.isStruct(mangledName)) {
+            this.instantiateGenericWithArgs(parsed.baseName, mangledName, typeArgs);
+        }
+        return mangledName;
+    }
+
+    /**
+     * Instantiate a generic interface given the mangled names of its type arguments
+     */
+    private instantiateGenericWithArgs(baseName: string, mangledName: string, typeArgs: string[]): void {
         // Check if already being instantiated (avoid cycles)
         if (this.genericRegistry.isInstantiated(mangledName)) {
             return;
@@ -1233,33 +4189,21 @@ export class ASTWalker {
             throw new Error(`Generic interface blueprint not found: ${baseName}`);
         }
 
-        // Get type parameter names
-        const typeParams = blueprint.typeParams;
+        // Forward-declare the instance so self-referencing fields (next: ListNode<T>) resolve to it
+        this.structRegistry.declare(mangledName);
 
         // Build substitution map: type param name -> concrete type mangled name
-        // Also recursively instantiate nested generics in type arguments
+        const typeParams = blueprint.typeParams;
         const typeSubst: Record<string, string> = {};
-        for (let i = 0; i < typeParams.length && i < parsed.typeArgs.length; i++) {
-            const paramName = typeParams[i];
-            const typeArg = parsed.typeArgs[i];
-
-            // If the type argument is itself a generic, recursively instantiate it first
-            if (typeArg.isGeneric) {
-                const argMangledName = this.typeResolver.getMangledName(typeArg, TypeMapper.mapType);
-                if (this.genericRegistry.isGenericInterface(typeArg.baseName) &&
-                    !this.structRegistry.isStruct(argMangledName)) {
-                    // Recursively instantiate the type argument
-                    this.instantiateGeneric(typeArg.baseName, argMangledName, typeArg);
-                }
-                typeSubst[paramName] = argMangledName;
-            } else {
-                typeSubst[paramName] = this.typeResolver.getMangledName(typeArg, TypeMapper.mapType);
-            }
+        for (let i = 0; i < typeParams.length && i < typeArgs.length; i++) {
+            typeSubst[typeParams[i]] = typeArgs[i];
         }
 
-        // Process each field from the blueprint
-        const fields: { name: string; tsType: string; llvmType: string }[] = [];
+        // Fields of the base interface come first (extends Box<T>)
+        const baseStruct = this.getInterfaceBase(blueprint.node, blueprint.sourceFile, typeSubst);
+        const fields = this.getInheritedFields(baseStruct);
 
+        // Process each field from the blueprint
         for (const member of blueprint.node.members) {
             if (!ts.isPropertySignature(member)) {
                 continue;
@@ -1270,52 +4214,40 @@ export class ASTWalker {
             let llvmType = "i32";
 
             if (member.type) {
-                const originalTypeText = member.type.getText(blueprint.sourceFile);
-                tsType = originalTypeText;
-
-                // Check if the field type is a type parameter
-                if (typeParams.includes(originalTypeText)) {
-                    // Substitute with concrete type
-                    const concreteType = typeSubst[originalTypeText];
-                    if (concreteType) {
-                        tsType = concreteType;
-                        // Check if the concrete type is a struct (pointer or regular)
-                        if (this.structRegistry.isStruct(concreteType)) {
-                            llvmType = `%${concreteType}*`;
-                        } else {
-                            llvmType = TypeMapper.mapType(concreteType);
-                        }
-                    }
+                const fieldParsed = this.typeResolver.parseTypeNode(this.getNonNullTypeNode(member.type), blueprint.sourceFile);
+                const inlineStruct = this.getInlineStruct(fieldParsed, typeSubst, mangledName);
+                tsType = inlineStruct ?? (fieldParsed.isGeneric
+                    ? this.resolveTypeArgument(fieldParsed, typeSubst)
+                    : typeSubst[fieldParsed.text] ?? fieldParsed.text);
+
+                // Inline<T> embeds the struct by value; other struct fields
+                // (including instantiated generics) are pointers to struct
+                if (inlineStruct) {
+                    llvmType = `%${inlineStruct}`;
+                } else if (this.structRegistry.isStruct(tsType)) {
+                    llvmType = `%${tsType}*`;
+                } else if (this.enumRegistry.isEnum(tsType)) {
+                    llvmType = "i32";
                 } else {
-                    // Not a type parameter - check if it's another struct or generic
-                    if (this.structRegistry.isStruct(originalTypeText)) {
-                        llvmType = `%${originalTypeText}*`;
-                    } else if (originalTypeText.includes("<")) {
-                        // This field uses another generic type - recursively resolve it
-                        const fieldParsed = this.typeResolver.parseTypeNode(member.type, blueprint.sourceFile);
-                        if (fieldParsed.isGeneric) {
-                            const fieldMangled = this.typeResolver.getMangledName(fieldParsed, TypeMapper.mapType);
-                            // Recursively instantiate if needed
-                            if (this.genericRegistry.isGenericInterface(fieldParsed.baseName) &&
-                                !this.structRegistry.isStruct(fieldMangled)) {
-                                this.instantiateGeneric(fieldParsed.baseName, fieldMangled, fieldParsed);
-                            }
-                            tsType = fieldMangled;
-                            llvmType = `%${fieldMangled}*`;
-                        } else {
-                            llvmType = TypeMapper.mapType(originalTypeText);
-                        }
-                    } else {
-                        llvmType = TypeMapper.mapType(originalTypeText);
-                    }
+                    llvmType = TypeMapper.getStorageType(TypeMapper.mapType(tsType));
                 }
+
+                if (ts.isUnionTypeNode(member.type) && !llvmType.endsWith("*")) {
+                    throw new Error(`Only pointer types can be nullable: ${fieldName} in ${mangledName}`);
+                }
+            }
+
+            // Optional properties (next?: T) are nullable pointers
+            const isOptional = member.questionToken !== undefined;
+            if (isOptional && !llvmType.endsWith("*")) {
+                throw new Error(`Optional property '${fieldName}' of ${mangledName} must be a pointer type`);
             }
 
-            fields.push({ name: fieldName, tsType, llvmType });
+            this.addField(fields, { name: fieldName, tsType, llvmType, isOptional }, mangledName);
         }
 
         // Register the instantiated struct
-        this.structRegistry.register(mangledName, fields);
+        this.structRegistry.register(mangledName, fields, baseStruct, this.isPackedInterface(blueprint.node, baseStruct));
         this.genericRegistry.markInstantiated(mangledName);
     }
 
@@ -1336,6 +4268,7 @@ export class ASTWalker {
             target: ts.ScriptTarget.ES2022,
             module: ts.ModuleKind.ESNext,
             strict: false,
+            strictNullChecks: true,  // Nullable pointers (Node | null) narrow after null checks
             skipLibCheck: true,
             skipDefaultLibCheck: true,
         });
@@ -1344,11 +4277,13 @@ export class ASTWalker {
         if (!preludeSource) {
             return;
         }
+        preludeProgram.getTypeChecker();  // Binds the file, setting the parent of every node
 
         // Save original source file reference
         const originalSource = this.sourceFile;
 
         // Process all functions from the prelude
+        this.sourceFile = preludeSource;
         ts.forEachChild(preludeSource, (node) => {
             if (ts.isFunctionDeclaration(node)) {
                 if (!node.body) {
@@ -1356,7 +4291,6 @@ export class ASTWalker {
                     this.visitDeclareFunctionFromSource(node, preludeSource);
                 } else {
                     // Function with body - compile it
-                    this.sourceFile = preludeSource;
                     this.visitFunctionDeclaration(node);
                 }
             }
@@ -1392,7 +4326,9 @@ export class ASTWalker {
 
             const paramName = param.name.getText(source);
             let paramType = "i32";
-            if (param.type) {
+            if (param.type && ts.isFunctionTypeNode(param.type)) {
+                paramType = this.resolveLLVMType(param.type);  // Callbacks (qsort's comparator)
+            } else if (param.type) {
                 paramType = TypeMapper.mapType(param.type.getText(source));
             }
             params.push({ name: paramName, type: paramType });
@@ -1404,6 +4340,7 @@ export class ASTWalker {
             returnType: llvmReturnType,
             params,
             isVariadic,
+            unsignedReturn: TypeMapper.isUnsigned(returnType),
         });
 
         // Emit the extern declaration
@@ -1449,17 +4386,18 @@ function compileWithModules(entryPath: string): string {
     const emitter = new Emitter("program");
     const externFunctions = new Map();
     const internalFunctions = new Map();
+    const globalVariables = new Map();
 
     // Load stdlib prelude first
     const libcPath = path.join(__dirname, "../stdlib/libc.ts");
     const preludeWalker = new ASTWalker(modules[0].sourceFile, modules[0].program, "stdlib", emitter);
-    preludeWalker.setSharedRegistries(externFunctions, internalFunctions);
+    preludeWalker.setSharedRegistries(externFunctions, internalFunctions, globalVariables);
     preludeWalker.loadPrelude(libcPath);
 
     // Process each module in dependency order
     for (const mod of modules) {
         const walker = new ASTWalker(mod.sourceFile, mod.program, mod.name, emitter);
-        walker.setSharedRegistries(externFunctions, internalFunctions);
+        walker.setSharedRegistries(externFunctions, internalFunctions, globalVariables);
         walker.registerImports(mod.imports);
         walker.walk();
     }
@@ -1479,6 +4417,7 @@ function compileSingleFile(sourceFilePath: string): string {
         target: ts.ScriptTarget.ES2022,
         module: ts.ModuleKind.ESNext,
         strict: false,
+        strictNullChecks: true,  // Nullable pointers (Node | null) narrow after null checks
         skipLibCheck: true,
         skipDefaultLibCheck: true,
     });
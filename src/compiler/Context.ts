@@ -7,9 +7,13 @@
 
 export interface Variable {
     name: string;           // Original TypeScript name
-    llvmName: string;       // LLVM register name (e.g., %x)
+    llvmName: string;       // LLVM register name (e.g., %x) or global name (e.g., @main_counter)
     llvmType: string;       // LLVM type (e.g., i32)
     isPointer: boolean;     // Whether this is a pointer (for alloca'd variables)
+    isUnsigned: boolean;    // Whether the integer (or array element) type is unsigned
+    isConstant: boolean;    // Declared with const (cannot be assigned)
+    constantValue?: string; // Folded initializer of a constant (reads use it directly)
+    stackStruct?: string;   // Stack struct (Inline<T> local) this variable is or points into
 }
 
 export class Context {
@@ -17,8 +21,10 @@ export class Context {
     private tempCounter: number = 0;
     private labelCounter: number = 0;
 
-    constructor() {
-        // Start with global scope
+    constructor(globalScope: Map<string, Variable> = new Map()) {
+        // Start with global scope (module-level variables, shared by all functions)
+        // and the scope of the function's parameters
+        this.scopes.push(globalScope);
         this.pushScope();
     }
 
@@ -41,19 +47,64 @@ export class Context {
     /**
      * Declare a variable in the current scope
      */
-    declareVariable(name: string, llvmType: string): Variable {
+    declareVariable(name: string, llvmType: string, isUnsigned: boolean = false, isConstant: boolean = false): Variable {
         const llvmName = `%${name}`;
         const variable: Variable = {
             name,
             llvmName,
             llvmType,
             isPointer: true,  // Stack-allocated variables are pointers
+            isUnsigned,
+            isConstant,
         };
 
         this.currentScope().set(name, variable);
         return variable;
     }
 
+    /**
+     * Declare a constant whose value is known at compile time (no storage is allocated)
+     */
+    declareConstant(name: string, llvmType: string, isUnsigned: boolean, value: string): Variable {
+        const variable: Variable = {
+            name,
+            llvmName: value,
+            llvmType,
+            isPointer: false,
+            isUnsigned,
+            isConstant: true,
+            constantValue: value,
+        };
+
+        this.currentScope().set(name, variable);
+        return variable;
+    }
+
+    /**
+     * Declare a module-level variable in the global scope
+     */
+    declareGlobal(
+        name: string,
+        llvmName: string,
+        llvmType: string,
+        isUnsigned: boolean,
+        isConstant: boolean,
+        constantValue?: string
+    ): Variable {
+        const variable: Variable = {
+            name,
+            llvmName,
+            llvmType,
+            isPointer: true,  // Globals are addressed through their symbol
+            isUnsigned,
+            isConstant,
+            constantValue,
+        };
+
+        this.scopes[0].set(name, variable);
+        return variable;
+    }
+
     /**
      * Look up a variable by name (searches from innermost to outermost scope)
      */
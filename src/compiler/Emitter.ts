@@ -8,9 +8,13 @@ export class Emitter {
     private declarations: string[] = [];  // External function declarations
     private structTypes: string[] = [];   // Struct type definitions
     private stringConstants: Map<string, string> = new Map();  // String literals
+    private globals: string[] = [];       // Module-level variables and constants
+    private liftedFunctions: string[] = [];  // Functions generated while another is emitted (closures)
+    private suspended: { buffer: string[]; indentLevel: number; currentBlock: string }[] = [];
     private stringCounter: number = 0;
     private indentLevel: number = 0;
     private targetTriple: string;
+    private currentBlock: string = "entry";  // Label of the basic block being emitted
 
     constructor(moduleName: string, targetTriple: string = "arm64-apple-macosx") {
         this.targetTriple = targetTriple;
@@ -64,6 +68,29 @@ export class Emitter {
         this.emitLine(`define ${returnType} @${name}(${params}) {`);
         this.emitLine("entry:");
         this.indent();
+        this.currentBlock = "entry";
+    }
+
+    /**
+     * Start emitting a lifted function (e.g., an arrow function body) into its own buffer
+     * The function being emitted is suspended until endLiftedFunction()
+     */
+    beginLiftedFunction(): void {
+        this.suspended.push({ buffer: this.buffer, indentLevel: this.indentLevel, currentBlock: this.currentBlock });
+        this.buffer = [];
+        this.indentLevel = 0;
+    }
+
+    /**
+     * Finish a lifted function and resume the suspended one
+     * The header ("define ... {") is given last, so it can use types found while emitting the body
+     */
+    endLiftedFunction(header: string): void {
+        this.liftedFunctions.push(header + "\n" + this.buffer.join(""));
+        const state = this.suspended.pop()!;
+        this.buffer = state.buffer;
+        this.indentLevel = state.indentLevel;
+        this.currentBlock = state.currentBlock;
     }
 
     /**
@@ -89,6 +116,14 @@ export class Emitter {
         this.dedent();
         this.emitLine(`${label}:`);
         this.indent();
+        this.currentBlock = label;
+    }
+
+    /**
+     * Get the label of the basic block currently being emitted (for phi nodes)
+     */
+    getCurrentBlock(): string {
+        return this.currentBlock;
     }
 
     /**
@@ -118,6 +153,14 @@ export class Emitter {
         this.emitLine(`${resultVar} = ${op} ${type} ${left}, ${right}`);
     }
 
+    /**
+     * Emit a phi node merging values from predecessor blocks
+     */
+    emitPhi(resultVar: string, type: string, incoming: { value: string; label: string }[]): void {
+        const pairs = incoming.map(i => `[ ${i.value}, %${i.label} ]`).join(", ");
+        this.emitLine(`${resultVar} = phi ${type} ${pairs}`);
+    }
+
     /**
      * Emit an alloca instruction (stack allocation)
      */
@@ -132,26 +175,35 @@ export class Emitter {
         this.emitLine(`${resultVar} = bitcast ${fromType} ${value} to ${toType}`);
     }
 
+    /**
+     * Emit a conversion instruction (sitofp, fpext, trunc, ...)
+     */
+    emitCast(resultVar: string, op: string, fromType: string, value: string, toType: string): void {
+        this.emitLine(`${resultVar} = ${op} ${fromType} ${value} to ${toType}`);
+    }
+
     /**
      * Add a struct type definition
      */
-    addStructType(name: string, fieldTypes: string[]): void {
+    addStructType(name: string, fieldTypes: string[], isPacked: boolean = false): void {
         const fields = fieldTypes.join(", ");
-        this.structTypes.push(`%${name} = type { ${fields} }`);
+        this.structTypes.push(isPacked ? `%${name} = type <{ ${fields} }>` : `%${name} = type { ${fields} }`);
     }
 
     /**
-     * Emit a store instruction
+     * Emit a store instruction (align overrides the type's natural alignment)
      */
-    emitStore(type: string, value: string, ptr: string): void {
-        this.emitLine(`store ${type} ${value}, ${type}* ${ptr}`);
+    emitStore(type: string, value: string, ptr: string, align?: number): void {
+        const alignSuffix = align ? `, align ${align}` : "";
+        this.emitLine(`store ${type} ${value}, ${type}* ${ptr}${alignSuffix}`);
     }
 
     /**
-     * Emit a load instruction
+     * Emit a load instruction (align overrides the type's natural alignment)
      */
-    emitLoad(resultVar: string, type: string, ptr: string): void {
-        this.emitLine(`${resultVar} = load ${type}, ${type}* ${ptr}`);
+    emitLoad(resultVar: string, type: string, ptr: string, align?: number): void {
+        const alignSuffix = align ? `, align ${align}` : "";
+        this.emitLine(`${resultVar} = load ${type}, ${type}* ${ptr}${alignSuffix}`);
     }
 
     /**
@@ -165,6 +217,17 @@ export class Emitter {
         }
     }
 
+    /**
+     * Emit a call through a function pointer (functionType is e.g. "i32 (i32, i32)")
+     */
+    emitIndirectCall(resultVar: string | null, functionType: string, callee: string, args: string): void {
+        if (resultVar) {
+            this.emitLine(`${resultVar} = call ${functionType} ${callee}(${args})`);
+        } else {
+            this.emitLine(`call ${functionType} ${callee}(${args})`);
+        }
+    }
+
     /**
      * Emit a function call with variadic arguments (like printf)
      */
@@ -187,6 +250,16 @@ export class Emitter {
         }
     }
 
+    /**
+     * Add a global variable definition
+     * e.g., @main_counter = internal global i32 0
+     */
+    addGlobal(name: string, type: string, initializer: string, isConstant: boolean, isInternal: boolean): void {
+        const linkage = isInternal ? "internal " : "";
+        const kind = isConstant ? "constant" : "global";
+        this.globals.push(`@${name} = ${linkage}${kind} ${type} ${initializer}`);
+    }
+
     /**
      * Add a string constant and return its global name
      */
@@ -273,8 +346,17 @@ export class Emitter {
             output += "\n";
         }
 
-        // Add the rest of the buffer (function definitions)
+        // Add global variables
+        for (const global of this.globals) {
+            output += global + "\n";
+        }
+        if (this.globals.length > 0) {
+            output += "\n";
+        }
+
+        // Add the rest of the buffer (function definitions), then the lifted functions
         output += this.buffer.slice(headerEnd + 1).join("");
+        output += this.liftedFunctions.join("");
 
         return output;
     }
@@ -0,0 +1,51 @@
+/**
+ * EnumRegistry - Manages TypeScript enum declarations
+ *
+ * Enum members are compile-time integer constants: Color.Red lowers to an
+ * i32 immediate, and enum-typed values are plain i32s.
+ */
+
+export interface EnumMember {
+    name: string;   // Member name (e.g., "Red")
+    value: number;  // Integer value (explicit or auto-incremented)
+}
+
+export interface EnumDef {
+    name: string;           // Enum name (e.g., "Color")
+    members: EnumMember[];  // Members in declaration order
+    isConst: boolean;       // const enum (no runtime representation)
+}
+
+export class EnumRegistry {
+    private enums: Map<string, EnumDef> = new Map();
+
+    /**
+     * Register a new enum definition
+     */
+    register(name: string, members: EnumMember[], isConst: boolean): EnumDef {
+        const enumDef: EnumDef = { name, members, isConst };
+        this.enums.set(name, enumDef);
+        return enumDef;
+    }
+
+    /**
+     * Get an enum definition by name
+     */
+    get(name: string): EnumDef | undefined {
+        return this.enums.get(name);
+    }
+
+    /**
+     * Check if a type is a registered enum
+     */
+    isEnum(typeName: string): boolean {
+        return this.enums.has(typeName);
+    }
+
+    /**
+     * Look up a member of an enum (e.g., Color.Red)
+     */
+    getMember(enumName: string, memberName: string): EnumMember | undefined {
+        return this.enums.get(enumName)?.members.find(m => m.name === memberName);
+    }
+}
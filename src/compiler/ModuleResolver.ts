@@ -24,7 +24,7 @@ export interface ModuleInfo {
     name: string;           // Module name (basename without .ts)
     sourceFile: ts.SourceFile;
     program: ts.Program;
-    exports: Set<string>;   // Exported function names
+    exports: Set<string>;   // Exported function and global variable names
     imports: ImportInfo[];  // What this module imports
     dependencies: string[]; // Module names this depends on
 }
@@ -68,6 +68,7 @@ export class ModuleResolver {
             target: ts.ScriptTarget.ES2022,
             module: ts.ModuleKind.ESNext,
             strict: false,
+            strictNullChecks: true,  // Nullable pointers (Node | null) narrow after null checks
             skipLibCheck: true,
             skipDefaultLibCheck: true,
         });
@@ -106,6 +107,16 @@ export class ModuleResolver {
                 }
             }
 
+            // Handle: export let counter = 0; export const MAX = 64;
+            if (ts.isVariableStatement(node)) {
+                const modifiers = ts.getModifiers(node);
+                if (modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) {
+                    for (const decl of node.declarationList.declarations) {
+                        exports.add(decl.name.getText(sourceFile));
+                    }
+                }
+            }
+
             // Handle: export { add, multiply }
             if (ts.isExportDeclaration(node) && node.exportClause) {
                 if (ts.isNamedExports(node.exportClause)) {
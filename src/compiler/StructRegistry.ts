@@ -3,6 +3,10 @@
  * 
  * Stores struct definitions including field names, types, indices, and sizes
  * for getelementptr access and sizeof calculations.
+ *
+ * Layout follows C and the LLVM datalayout of the 64-bit targets (x86_64, arm64):
+ * every field is placed at a multiple of its natural alignment, and the struct size
+ * is padded to a multiple of its largest field alignment. Packed structs have no padding.
  */
 
 export interface StructField {
@@ -10,31 +14,70 @@ export interface StructField {
     type: string;       // LLVM type (e.g., "i32", "%Point*")
     tsType: string;     // Original TypeScript type
     index: number;      // Field index for GEP
-    offset: number;     // Byte offset (for sizeof)
+    offset: number;     // Byte offset (for sizeof and offsetof)
     size: number;       // Field size in bytes
+    alignment: number;  // Field alignment in bytes (1 in packed structs)
+    isOptional: boolean; // Optional property (next?: Node), null when omitted from a literal
+    declaringClass?: string; // Class that declared the field (class fields only)
+    isPrivate: boolean;  // private class field: only accessible inside the declaring class
+    isProtected: boolean; // protected class field: also accessible inside its subclasses
+    isReadonly: boolean; // readonly class field: only assignable in the declaring class's constructor
+}
+
+export interface FieldDeclaration {
+    name: string;
+    tsType: string;
+    llvmType: string;
+    isOptional?: boolean;
+    declaringClass?: string;
+    isPrivate?: boolean;
+    isProtected?: boolean;
+    isReadonly?: boolean;
 }
 
 export interface StructDef {
     name: string;           // Struct name (e.g., "Point")
     fields: StructField[];  // Ordered list of fields
-    size: number;           // Total size in bytes
+    size: number;           // Total size in bytes, including padding
+    alignment: number;      // Alignment in bytes (largest field alignment, 1 if packed)
+    isPacked: boolean;      // No padding between fields (LLVM <{ ... }>)
     llvmType: string;       // e.g., "{ i32, i32 }"
     llvmPtrType: string;    // e.g., "%Point*"
+    baseName?: string;      // Base struct whose fields come first (interface Circle extends Shape)
 }
 
 export class StructRegistry {
     private structs: Map<string, StructDef> = new Map();
+    private declared: Set<string> = new Set();  // Forward-declared (possibly not yet defined) structs
+
+    /**
+     * Forward-declare a struct so fields can point to it before it is defined
+     */
+    declare(name: string): void {
+        this.declared.add(name);
+    }
 
     /**
      * Register a new struct definition
      */
-    register(name: string, fields: { name: string; tsType: string; llvmType: string }[]): StructDef {
+    register(
+        name: string,
+        fields: FieldDeclaration[],
+        baseName?: string,
+        isPacked: boolean = false
+    ): StructDef {
         const structFields: StructField[] = [];
         let offset = 0;
+        let structAlignment = 1;
 
         for (let i = 0; i < fields.length; i++) {
             const f = fields[i];
             const size = this.getTypeSize(f.llvmType);
+            const alignment = isPacked ? 1 : this.getTypeAlignment(f.llvmType);
+
+            // Padding before the field up to its alignment
+            offset = this.alignTo(offset, alignment);
+            structAlignment = Math.max(structAlignment, alignment);
 
             structFields.push({
                 name: f.name,
@@ -43,6 +86,12 @@ export class StructRegistry {
                 index: i,
                 offset,
                 size,
+                alignment,
+                isOptional: f.isOptional ?? false,
+                declaringClass: f.declaringClass,
+                isPrivate: f.isPrivate ?? false,
+                isProtected: f.isProtected ?? false,
+                isReadonly: f.isReadonly ?? false,
             });
 
             offset += size;
@@ -52,9 +101,13 @@ export class StructRegistry {
         const structDef: StructDef = {
             name,
             fields: structFields,
-            size: offset,
-            llvmType: `{ ${llvmFieldTypes} }`,
+            // Tail padding so arrays of the struct keep every element aligned
+            size: this.alignTo(offset, structAlignment),
+            alignment: structAlignment,
+            isPacked,
+            llvmType: isPacked ? `<{ ${llvmFieldTypes} }>` : `{ ${llvmFieldTypes} }`,
             llvmPtrType: `%${name}*`,
+            baseName,
         };
 
         this.structs.set(name, structDef);
@@ -74,7 +127,7 @@ export class StructRegistry {
     isStruct(typeName: string): boolean {
         // Remove pointer suffix if present
         const baseName = typeName.replace(/\*$/, "").replace(/^\%/, "");
-        return this.structs.has(baseName);
+        return this.structs.has(baseName) || this.declared.has(baseName);
     }
 
     /**
@@ -95,6 +148,11 @@ export class StructRegistry {
             return 8;
         }
 
+        // Closures are a function pointer and an environment pointer ({ void (i8*)*, i8* })
+        if (llvmType.startsWith("{")) {
+            return 16;
+        }
+
         // Handle basic types
         switch (llvmType) {
             case "i1": return 1;
@@ -116,6 +174,32 @@ export class StructRegistry {
         }
     }
 
+    /**
+     * Get the natural (ABI) alignment of a type in bytes
+     */
+    getTypeAlignment(llvmType: string): number {
+        // Structs held by value are aligned like their most aligned field
+        const struct = this.structs.get(llvmType.replace(/^\%/, ""));
+        if (struct && !llvmType.endsWith("*")) {
+            return struct.alignment;
+        }
+
+        // Closures are aligned like the pointers they hold
+        if (llvmType.startsWith("{")) {
+            return 8;
+        }
+
+        // Scalars and pointers are aligned to their size
+        return this.getTypeSize(llvmType);
+    }
+
+    /**
+     * Round an offset up to a multiple of an alignment
+     */
+    private alignTo(offset: number, alignment: number): number {
+        return Math.ceil(offset / alignment) * alignment;
+    }
+
     /**
      * Get all registered structs (for LLVM IR emission)
      */
@@ -125,6 +209,8 @@ export class StructRegistry {
 
     /**
      * Get structs in dependency order (dependencies first)
+     * Only fields holding a struct by value are dependencies; pointer fields may
+     * refer to any struct, so self-referential and mutually recursive structs are fine
      */
     getTopologicalOrder(): StructDef[] {
         const result: StructDef[] = [];
@@ -144,8 +230,8 @@ export class StructRegistry {
 
             // Visit dependencies first
             for (const field of struct.fields) {
-                // Check if field type is another struct
-                const fieldTypeName = field.type.replace(/\*$/, "").replace(/^\%/, "");
+                // Check if field holds another struct by value (e.g., %Point, not %Point*)
+                const fieldTypeName = field.type.replace(/^\%/, "");
                 if (this.structs.has(fieldTypeName)) {
                     visit(fieldTypeName);
                 }
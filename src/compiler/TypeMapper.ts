@@ -11,9 +11,17 @@ export class TypeMapper {
         switch (tsType.toLowerCase()) {
             case "number":
                 return "i32";  // Default integers to 32-bit
+            case "i8":
+            case "u8":
+                return "i8";
+            case "i16":
+            case "u16":
+                return "i16";
             case "i32":
+            case "u32":
                 return "i32";
             case "i64":
+            case "u64":
                 return "i64";
             case "f32":
                 return "float";
@@ -32,13 +40,136 @@ export class TypeMapper {
                 // Handle pointer types
                 if (tsType.endsWith("[]")) {
                     const baseType = tsType.slice(0, -2);
-                    return this.mapType(baseType) + "*";
+                    return this.getStorageType(this.mapType(baseType)) + "*";
                 }
                 console.warn(`Unknown type "${tsType}", defaulting to i32`);
                 return "i32";
         }
     }
 
+    /**
+     * Check if a TypeScript type is an unsigned integer (or an array of them)
+     * LLVM integers carry no sign, so signedness is tracked alongside the LLVM type
+     */
+    static isUnsigned(tsType: string): boolean {
+        const baseType = tsType.replace(/(\[\])+$/, "");
+        return ["u8", "u16", "u32", "u64"].includes(baseType);
+    }
+
+    /**
+     * Check if a TypeScript type name is a primitive type (a number type, boolean or string)
+     */
+    static isPrimitive(tsType: string): boolean {
+        return [
+            "number", "i8", "u8", "i16", "u16", "i32", "u32", "i64", "u64", "f32", "f64", "boolean", "bool", "string",
+        ].includes(tsType);
+    }
+
+    /**
+     * Check if a TypeScript type is a boolean
+     */
+    static isBoolean(tsType: string): boolean {
+        return ["boolean", "bool"].includes(tsType.toLowerCase());
+    }
+
+    /**
+     * Get the LLVM type used to store a value in memory (struct fields, array elements)
+     * Booleans are i1 in registers but occupy a full byte (i8) in memory, as in C
+     */
+    static getStorageType(llvmType: string): string {
+        return llvmType === "i1" ? "i8" : llvmType;
+    }
+
+    /**
+     * Get the name used for a type inside mangled generic names
+     * (number -> i32; other names are kept, so Box<u8> and Box<i8> stay distinct
+     * and Box<Vector3> becomes Box_Vector3)
+     */
+    static getMangledTypeName(tsType: string): string {
+        return tsType === "number" ? "i32" : tsType;
+    }
+
+    /**
+     * Get the LLVM function pointer type for a signature
+     * ((a: i32, b: i32) => i32 -> i32 (i32, i32)*)
+     */
+    static getFunctionPointerType(returnType: string, paramTypes: string[], isVariadic: boolean = false): string {
+        const params = isVariadic ? [...paramTypes, "..."] : paramTypes;
+        return `${returnType} (${params.join(", ")})*`;
+    }
+
+    /**
+     * Check if an LLVM type is a function pointer
+     */
+    static isFunctionPointer(llvmType: string): boolean {
+        return llvmType.endsWith(")*");
+    }
+
+    /**
+     * Split a function pointer type into its return and parameter types
+     * (i32 (i8*, ...)* -> returns i32, params [i8*], variadic)
+     */
+    static parseFunctionPointerType(llvmType: string): { returnType: string; paramTypes: string[]; isVariadic: boolean } {
+        // Find the parameter list: the parenthesis matching the final ")" before "*"
+        const signature = llvmType.slice(0, -1);
+        let depth = 0;
+        let start = signature.length - 1;
+        for (; start >= 0; start--) {
+            if (signature[start] === ")") depth++;
+            if (signature[start] === "(") depth--;
+            if (depth === 0) break;
+        }
+
+        // Split the parameters on top-level commas (parameters may be function pointers too)
+        const paramTypes: string[] = [];
+        let current = "";
+        depth = 0;
+        for (const ch of signature.slice(start + 1, -1)) {
+            if (ch === "(") depth++;
+            if (ch === ")") depth--;
+            if (ch === "," && depth === 0) {
+                paramTypes.push(current.trim());
+                current = "";
+            } else {
+                current += ch;
+            }
+        }
+        if (current.trim()) {
+            paramTypes.push(current.trim());
+        }
+
+        const isVariadic = paramTypes[paramTypes.length - 1] === "...";
+        return {
+            returnType: signature.slice(0, start).trim(),
+            paramTypes: isVariadic ? paramTypes.slice(0, -1) : paramTypes,
+            isVariadic,
+        };
+    }
+
+    /**
+     * Get the LLVM type of a closure: a fat pointer pairing the lifted function with its environment
+     * (Closure<(dt: f64) => void> -> { void (i8*, double)*, i8* }); the function takes the environment first
+     */
+    static getClosureType(returnType: string, paramTypes: string[]): string {
+        return `{ ${this.getFunctionPointerType(returnType, ["i8*", ...paramTypes])}, i8* }`;
+    }
+
+    /**
+     * Check if an LLVM type is a closure (fat pointer)
+     */
+    static isClosure(llvmType: string): boolean {
+        return llvmType.startsWith("{ ") && llvmType.endsWith(", i8* }");
+    }
+
+    /**
+     * Split a closure type into its return and parameter types (without the environment)
+     */
+    static parseClosureType(llvmType: string): { returnType: string; paramTypes: string[] } {
+        const functionType = llvmType.slice("{ ".length, -", i8* }".length);
+        const { returnType, paramTypes } = this.parseFunctionPointerType(functionType);
+        return { returnType, paramTypes: paramTypes.slice(1) };
+    }
+
     /**
      * Get the LLVM type from a TypeScript AST TypeNode
      */
@@ -90,10 +221,112 @@ export class TypeMapper {
         return llvmType.startsWith("i") && !llvmType.endsWith("*");
     }
 
+    /**
+     * Format a floating point constant for LLVM IR
+     * Uses the hexadecimal IEEE-754 double form, which LLVM accepts for both
+     * float and double (float constants must be exactly representable, so the
+     * value is rounded to single precision first)
+     */
+    static formatFloatConstant(value: number, llvmType: string): string {
+        const rounded = llvmType === "float" ? Math.fround(value) : value;
+        const view = new DataView(new ArrayBuffer(8));
+        view.setFloat64(0, rounded);
+        return "0x" + view.getBigUint64(0).toString(16).toUpperCase().padStart(16, "0");
+    }
+
+    /**
+     * Parse a floating point constant produced by formatFloatConstant
+     */
+    static parseFloatConstant(constant: string): number {
+        const view = new DataView(new ArrayBuffer(8));
+        view.setBigUint64(0, BigInt(constant));
+        return view.getFloat64(0);
+    }
+
+    /**
+     * Get the bit width of an integer type (e.g., i32 -> 32)
+     */
+    static getIntegerBits(llvmType: string): number {
+        return parseInt(llvmType.slice(1), 10);
+    }
+
+    /**
+     * Check if an integer constant can be represented in an integer type: in its signed or
+     * unsigned range, or in either when the signedness is not known (e.g., i8 255 as a bit pattern)
+     * No integer constant fits in i1: booleans are not integers
+     */
+    static fitsInteger(value: number, llvmType: string, unsigned?: boolean): boolean {
+        if (llvmType === "i1") {
+            return false;
+        }
+        const bits = this.getIntegerBits(llvmType);
+        const min = unsigned ? 0 : -(2 ** (bits - 1));
+        const max = unsigned === false ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+        return Number.isInteger(value) && value >= min && value <= max;
+    }
+
+    /**
+     * Get the conversion instruction between two types
+     * (e.g., i32 -> double is sitofp, i32 -> i64 is sext, u32 -> i64 is zext)
+     */
+    static getCastOp(fromType: string, toType: string, fromUnsigned: boolean = false, toUnsigned: boolean = false): string {
+        const fromFloat = this.isFloat(fromType);
+        const toFloat = this.isFloat(toType);
+        const fromPointer = fromType.endsWith("*");
+        const toPointer = toType.endsWith("*");
+
+        if (fromPointer && toPointer) {
+            return "bitcast";
+        }
+        if (fromPointer && this.isInteger(toType)) {
+            return "ptrtoint";
+        }
+        if (this.isInteger(fromType) && toPointer) {
+            return "inttoptr";
+        }
+        if (fromFloat && toFloat) {
+            return this.sizeOf(toType) > this.sizeOf(fromType) ? "fpext" : "fptrunc";
+        }
+        if (toFloat && this.isInteger(fromType)) {
+            return fromUnsigned || fromType === "i1" ? "uitofp" : "sitofp";
+        }
+        if (fromFloat && this.isInteger(toType)) {
+            return toUnsigned ? "fptoui" : "fptosi";
+        }
+        if (this.isInteger(fromType) && this.isInteger(toType)) {
+            if (this.getIntegerBits(toType) < this.getIntegerBits(fromType)) {
+                return "trunc";
+            }
+            // Unsigned values and booleans (0/1) are zero-extended
+            return fromUnsigned || fromType === "i1" ? "zext" : "sext";
+        }
+
+        throw new Error(`No conversion from ${fromType} to ${toType}`);
+    }
+
+    /**
+     * Check if a conversion preserves every value of the source type,
+     * i.e. it is safe to apply implicitly
+     */
+    static isLosslessConversion(fromType: string, toType: string): boolean {
+        if (this.isInteger(fromType) && this.isInteger(toType)) {
+            return this.getIntegerBits(toType) >= this.getIntegerBits(fromType);
+        }
+        if (this.isInteger(fromType) && this.isFloat(toType)) {
+            // The integer must fit in the mantissa (24 bits for float, 53 for double)
+            const mantissaBits = toType === "float" ? 24 : 53;
+            return this.getIntegerBits(fromType) <= mantissaBits;
+        }
+        if (this.isFloat(fromType) && this.isFloat(toType)) {
+            return this.sizeOf(toType) >= this.sizeOf(fromType);
+        }
+        return false;
+    }
+
     /**
      * Get the appropriate binary operation for a type
      */
-    static getBinaryOp(op: string, llvmType: string): string {
+    static getBinaryOp(op: string, llvmType: string, isUnsigned: boolean = false): string {
         const isFloat = this.isFloat(llvmType);
 
         switch (op) {
@@ -104,9 +337,29 @@ export class TypeMapper {
             case "*":
                 return isFloat ? "fmul" : "mul";
             case "/":
-                return isFloat ? "fdiv" : "sdiv";  // Signed division
+                return isFloat ? "fdiv" : isUnsigned ? "udiv" : "sdiv";
             case "%":
-                return isFloat ? "frem" : "srem";  // Signed remainder
+                return isFloat ? "frem" : isUnsigned ? "urem" : "srem";
+        }
+
+        // Bitwise and shift operators only apply to integers
+        if (isFloat) {
+            throw new Error(`Operator '${op}' requires integer operands, got ${llvmType}`);
+        }
+
+        switch (op) {
+            case "&":
+                return "and";
+            case "|":
+                return "or";
+            case "^":
+                return "xor";
+            case "<<":
+                return "shl";
+            case ">>":
+                return isUnsigned ? "lshr" : "ashr";  // Arithmetic shift keeps the sign
+            case ">>>":
+                return "lshr";
             default:
                 throw new Error(`Unknown binary operator: ${op}`);
         }
@@ -115,7 +368,7 @@ export class TypeMapper {
     /**
      * Get the appropriate comparison operation for a type
      */
-    static getCompareOp(op: string, llvmType: string): { instruction: string; predicate: string } {
+    static getCompareOp(op: string, llvmType: string, isUnsigned: boolean = false): { instruction: string; predicate: string } {
         const isFloat = this.isFloat(llvmType);
 
         if (isFloat) {
@@ -130,6 +383,18 @@ export class TypeMapper {
                 "!==": "one",
             };
             return { instruction: "fcmp", predicate: predicates[op] || "oeq" };
+        } else if (isUnsigned) {
+            const predicates: Record<string, string> = {
+                "<": "ult",   // Unsigned less than
+                ">": "ugt",   // Unsigned greater than
+                "<=": "ule",  // Unsigned less or equal
+                ">=": "uge",  // Unsigned greater or equal
+                "==": "eq",
+                "===": "eq",
+                "!=": "ne",
+                "!==": "ne",
+            };
+            return { instruction: "icmp", predicate: predicates[op] || "eq" };
         } else {
             const predicates: Record<string, string> = {
                 "<": "slt",   // Signed less than
@@ -26,9 +26,11 @@ export class TypeResolver {
     parseTypeNode(node: ts.TypeNode, sourceFile: ts.SourceFile): ParsedTypeReference {
         const text = node.getText(sourceFile);
 
-        // Handle TypeReferenceNode (e.g., Box<number>, Vector3)
-        if (ts.isTypeReferenceNode(node)) {
-            const baseName = node.typeName.getText(sourceFile);
+        // Handle TypeReferenceNode (e.g., Box<number>, Vector3) and extends clauses (extends Box<T>)
+        if (ts.isTypeReferenceNode(node) || ts.isExpressionWithTypeArguments(node)) {
+            const baseName = ts.isTypeReferenceNode(node)
+                ? node.typeName.getText(sourceFile)
+                : node.expression.getText(sourceFile);
             const typeArgs: ParsedTypeReference[] = [];
 
             // Parse type arguments if present
@@ -18,6 +18,10 @@ declare function free(ptr: number[]): void;
 declare function memset(ptr: number[], value: number, size: number): number[];
 declare function memcpy(dest: number[], src: number[], size: number): number[];
 
+// Sorting and searching (the comparator returns <0, 0 or >0, like strcmp)
+declare function qsort(base: number[], count: number, size: number, compare: (a: number[], b: number[]) => number): void;
+declare function bsearch(key: number[], base: number[], count: number, size: number, compare: (a: number[], b: number[]) => number): number[];
+
 // Process control
 declare function exit(status: number): void;
 
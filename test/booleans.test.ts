@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+test("arithmetic on booleans is rejected", () => {
+    const flag = "let b: boolean = true;\n";
+    assert.throws(() => compile(inMain(flag + "let n: number = b + 1;")), /Operator '\+' cannot be applied to a boolean/);
+    assert.throws(() => compile(inMain(flag + "b++;")), /Operator '\+' cannot be applied to a boolean/);
+    assert.throws(() => compile(inMain(flag + "b += 1;")), /Operator '\+' cannot be applied to a boolean/);
+    assert.throws(() => compile(inMain(flag + "let n: number = -b;")), /Operator '-' cannot be applied to a boolean/);
+    assert.throws(() => compile(inMain("const n: number = true * 2;")), /Operator '\*' cannot be applied to a boolean/);
+
+    const ir = compile(inMain(flag + "let n: number = (b as number) + 1;"));
+    assert.match(ir, /zext i1 %\w+ to i32/);
+    assert.match(ir, /add i32 %\w+, 1/);
+    assert.doesNotMatch(ir, /add i1/);
+});
+
+test("integer constants do not convert to booleans", () => {
+    assert.throws(() => compile(inMain("let b: boolean = 1;")), /Constant 1 does not fit in boolean/);
+    assert.throws(() => compile(inMain("let b: boolean = 0;")), /Constant 0 does not fit in boolean/);
+
+    const ir = compile(inMain("let b: boolean = 1 as boolean;\nlet c = b === true;"));
+    assert.match(ir, /store i1 true, i1\* %b/);
+});
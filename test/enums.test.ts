@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+test("enum toString functions carry the module prefix", () => {
+    const ir = compile("enum Color { Red, Green }\n" + inMain("let c = Color.Green;\nprintf(\"%s %s\", c.toString(), Color_toString(c));"));
+    assert.match(ir, /define i8\* @main_Color_toString\(i32 %value\)/);
+    assert.equal(ir.match(/call i8\* @main_Color_toString\(i32 /g)?.length, 2);
+    assert.doesNotMatch(ir, /@Color_toString/);
+});
+
+test("toString on a const enum is a compile error", () => {
+    const source = (call: string) => "const enum Flag { A, B }\n" + inMain(`let f = Flag.B;\nprintf("%s", ${call});`);
+    assert.throws(() => compile(source("f.toString()")), /const enum Flag has no toString\(\)/);
+    assert.throws(() => compile(source("Flag_toString(f)")), /const enum Flag has no toString\(\)/);
+});
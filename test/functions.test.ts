@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+const add = "function add(a: number, b: number): number { return a + b; }\n";
+
+test("function pointers with different signatures need an explicit cast", () => {
+    const mismatch = /Type mismatch: cannot convert function i32 \(i32, i32\)\* to i32 \(i64\)\*; use an explicit 'as' cast/;
+    assert.throws(() => compile(add + inMain("let f: (a: i64) => i32 = add;")), mismatch);
+    assert.throws(
+        () => compile(add + "function apply(f: (a: i64) => i32): number { return f(1); }\n" + inMain("apply(add);")),
+        mismatch
+    );
+
+    const ir = compile(add + inMain("let f: (a: i64) => i32 = add as (a: i64) => i32;\nlet g: (a: number, b: number) => number = add;"));
+    assert.match(ir, /bitcast i32 \(i32, i32\)\* @main_add to i32 \(i64\)\*/);
+    assert.match(ir, /store i32 \(i32, i32\)\* @main_add, i32 \(i32, i32\)\*\* %g/);
+});
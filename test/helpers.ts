@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { compileToIR } from "../src/compiler/ASTWalker";
+
+/**
+ * Compile a MicroTS program to LLVM IR
+ * The source is written alone to a temporary directory, so no sibling files are loaded
+ */
+export function compile(source: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "microts-"));
+    try {
+        const file = path.join(dir, "main.ts");
+        fs.writeFileSync(file, source);
+        return compileToIR(file);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Wrap statements in a main function returning 0
+ */
+export function inMain(statements: string): string {
+    return `function main(): number {\n${statements}\n    return 0;\n}\n`;
+}
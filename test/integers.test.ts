@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+test("integer constants must fit the signedness of their target", () => {
+    assert.throws(() => compile(inMain("let a: number = 3000000000;")), /Constant 3000000000 does not fit in i32/);
+    assert.throws(() => compile(inMain("let a: u8 = -1;")), /Constant -1 does not fit in u8/);
+    assert.throws(() => compile(inMain("let a: i64 = 10000000000000000000;")), /does not fit in i64/);
+    assert.throws(
+        () => compile("const K: u32 = 4000000000;\n" + inMain("let a: number = 0;\na = K;")),
+        /Constant 4000000000 does not fit in i32/
+    );
+
+    const ir = compile(inMain("let a: u32 = 4000000000;\nlet b: i8 = -128;\nlet c: u8 = 255;"));
+    assert.match(ir, /store i32 4000000000, i32\* %a/);
+    assert.match(ir, /store i8 -128, i8\* %b/);
+    assert.match(ir, /store i8 255, i8\* %c/);
+});
+
+test("narrow integers are promoted to i32 before arithmetic and comparisons", () => {
+    const ir = compile(inMain(`
+    let a: u8 = 200;
+    let b: u8 = 100;
+    let sum: number = a + b;
+    let diff: number = a - 201;
+    let positive: boolean = a > -1;`));
+    assert.match(ir, /zext i8 %\w+ to i32/);
+    assert.doesNotMatch(ir, /(add|sub) i8/);
+    assert.match(ir, /add i32 %\w+, %\w+/);
+    assert.match(ir, /sub i32 %\w+, 201/);
+    assert.match(ir, /icmp sgt i32 %\w+, -1/);
+
+    assert.throws(() => compile(inMain("let a: u8 = 1;\nlet b: u8 = a + a;")), /may lose data/);
+    assert.throws(() => compile(inMain("let a: u32 = 1;\nlet b: boolean = a > -1;")), /Cannot compare an unsigned u32 with the negative constant -1/);
+});
+
+test("increments and compound assignments convert the promoted result back", () => {
+    const ir = compile(inMain("let a: u8 = 255;\na++;\na += 2;"));
+    assert.equal(ir.match(/trunc i32 %\w+ to i8/g)?.length, 2);
+});
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+test("sizeof and alignof give the C layout of primitive types", () => {
+    const cases: [string, number, number][] = [
+        ["f64", 8, 8], ["f32", 4, 4], ["i16", 2, 2], ["u8", 1, 1], ["number", 4, 4],
+        ["i64", 8, 8], ["boolean", 1, 1], ["string", 8, 8],
+    ];
+    for (const [type, size, alignment] of cases) {
+        const ir = compile(inMain(`let s: number = sizeof<${type}>();\nlet a: number = alignof<${type}>();`));
+        assert.match(ir, new RegExp(`store i32 ${size}, i32\\* %s`), `sizeof<${type}>`);
+        assert.match(ir, new RegExp(`store i32 ${alignment}, i32\\* %a`), `alignof<${type}>`);
+    }
+
+    const ir = compile("enum Color { Red }\n" + inMain("let s: number = sizeof<Color>();"));
+    assert.match(ir, /store i32 4, i32\* %s/);
+
+    assert.throws(() => compile(inMain("let s: number = sizeof<Missing>();")), /sizeof: Unknown type 'Missing'/);
+    assert.throws(() => compile(inMain("let s: number = offsetof<f64>(\"x\");")), /offsetof: Unknown type 'f64'/);
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { compile, inMain } from "./helpers";
+
+const types = `
+interface Node { value: number; next: Node | null; }
+interface Pair { first: Node; second?: Node; }
+let spare: Node | null = null;
+function g(m: Node): number { return m.value; }
+`;
+
+test("null does not convert to a non-nullable type", () => {
+    const rejects = (source: string) => assert.throws(() => compile(types + source), /Cannot use null as Node; declare the type as Node \| null/);
+    rejects(inMain("let m: Node = null;"));
+    rejects(inMain("g(null);"));
+    rejects(inMain("let p: Pair = { first: null };"));
+    rejects(inMain("let p: Pair = { first: malloc(sizeof<Node>()) };\np.first = null;"));
+    rejects("function h(): Node { return null; }\n" + inMain(""));
+    rejects("let global: Node = null;\n" + inMain(""));
+});
+
+test("possibly-null values do not convert to a non-nullable type", () => {
+    const rejects = (source: string) => assert.throws(() => compile(types + source), /'\w+(\.\w+)?' may be null, but Node is not nullable/);
+    const n = "let n: Node | null = spare;\n";
+    rejects(inMain(n + "let m: Node = n;"));
+    rejects(inMain(n + "g(n);"));
+    rejects(inMain(n + "let p: Pair = { first: n };"));
+    rejects(inMain(n + "let m: Node = malloc(sizeof<Node>());\nm = n;"));
+    rejects(inMain("let p: Pair = { first: malloc(sizeof<Node>()) };\nlet m: Node = p.second;"));
+    rejects("function h(n: Node | null): Node { return n; }\n" + inMain(""));
+});
+
+test("a null check makes a nullable value non-null", () => {
+    const ir = compile(types + inMain(`
+    let n: Node | null = spare;
+    if (n != null) {
+        let m: Node = n;
+        g(n);
+    }
+    let o: Node | null = null;
+    o = n;`));
+    assert.match(ir, /call i32 @main_g\(%Node\* %\w+\)/);
+});